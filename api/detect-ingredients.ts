@@ -0,0 +1,10 @@
+// api/detect-ingredients.ts
+
+import { createVercelHandler } from "../lib/adapters/vercel";
+import { detectIngredientsEndpoint } from "../lib/recipe-engine";
+
+export const config = {
+  maxDuration: 60,
+};
+
+export default createVercelHandler("detect-ingredients", detectIngredientsEndpoint);
@@ -0,0 +1,6 @@
+// api/refine-recipe.ts
+
+import { createVercelHandler } from "../lib/adapters/vercel";
+import { refineRecipeEndpoint } from "../lib/recipe-engine";
+
+export default createVercelHandler("refine-recipe", refineRecipeEndpoint);
@@ -0,0 +1,54 @@
+// components/AuthProvider.tsx
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { onAuthStateChanged, signOut as firebaseSignOut, type User } from 'firebase/auth';
+import { auth } from '../lib/firebase';
+
+interface AuthContextValue {
+  user: User | null;
+  /** True until Firebase has restored (or ruled out) a persisted session. */
+  initializing: boolean;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue>({
+  user: null,
+  initializing: true,
+  signOut: async () => {},
+});
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<User | null>(auth.currentUser);
+  const [initializing, setInitializing] = useState(true);
+
+  useEffect(() => onAuthStateChanged(auth, (next) => {
+    setUser(next);
+    setInitializing(false);
+  }), []);
+
+  const signOut = () => firebaseSignOut(auth);
+
+  return (
+    <AuthContext.Provider value={{ user, initializing, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = () => useContext(AuthContext);
+
+interface RequireAuthProps {
+  children: React.ReactNode;
+  /** Called once it is known that nobody is signed in, e.g. to open the login modal. */
+  onUnauthenticated: () => void;
+}
+
+/** Renders personal features only for a signed-in user. */
+export const RequireAuth: React.FC<RequireAuthProps> = ({ children, onUnauthenticated }) => {
+  const { user, initializing } = useAuth();
+
+  useEffect(() => {
+    if (!initializing && !user) onUnauthenticated();
+  }, [initializing, user]);
+
+  return user ? <>{children}</> : null;
+};
@@ -0,0 +1,278 @@
+// components/CameraCapture.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Camera, Check, Flashlight, FlashlightOff, RefreshCw, RotateCcw, Upload, X } from 'lucide-react';
+import type { Language } from '../lib/recipe-engine/types';
+
+type Facing = 'environment' | 'user';
+
+// `torch` is not in the DOM typings yet; Chrome on Android exposes it on camera tracks.
+interface TorchCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+}
+
+const translations = {
+  ar: {
+    title: 'التقط صورة',
+    hint: 'اضغط على الصورة للالتقاط',
+    capture: 'التقاط',
+    retake: 'إعادة',
+    usePhoto: 'استخدم الصورة',
+    switchCamera: 'تبديل الكاميرا',
+    torchOn: 'تشغيل الفلاش',
+    torchOff: 'إطفاء الفلاش',
+    close: 'إغلاق',
+    starting: 'جارٍ تشغيل الكاميرا...',
+    denied: 'لم يُسمح بالوصول إلى الكاميرا. اسمح به من إعدادات المتصفح أو اختر صورة من جهازك.',
+    unavailable: 'تعذر تشغيل الكاميرا على هذا الجهاز.',
+    chooseFile: 'اختر صورة من الجهاز',
+  },
+  en: {
+    title: 'Take a photo',
+    hint: 'Tap the picture to capture',
+    capture: 'Capture',
+    retake: 'Retake',
+    usePhoto: 'Use photo',
+    switchCamera: 'Switch camera',
+    torchOn: 'Turn flash on',
+    torchOff: 'Turn flash off',
+    close: 'Close',
+    starting: 'Starting camera...',
+    denied: 'Camera access was blocked. Allow it in your browser settings or choose a photo instead.',
+    unavailable: 'The camera could not be started on this device.',
+    chooseFile: 'Choose a photo instead',
+  }
+};
+
+/** False on insecure origins and older browsers, where the file input is the only way in. */
+export const isCameraSupported = () =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+interface CameraCaptureProps {
+  isOpen: boolean;
+  lang: Language;
+  onCapture: (file: File) => void;
+  onClose: () => void;
+  /** Opens the regular file picker when the camera cannot be used. */
+  onFallback: () => void;
+}
+
+export const CameraCapture: React.FC<CameraCaptureProps> = ({ isOpen, lang, onCapture, onClose, onFallback }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [facing, setFacing] = useState<Facing>('environment');
+  const [canSwitch, setCanSwitch] = useState(false);
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<'denied' | 'unavailable' | null>(null);
+  const [shot, setShot] = useState<{ blob: Blob; url: string } | null>(null);
+
+  const t = translations[lang];
+
+  const stopStream = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  // (Re)start the camera whenever the modal opens, the lens changes or a retake is asked for
+  useEffect(() => {
+    if (!isOpen || shot) return;
+    let cancelled = false;
+
+    const start = async () => {
+      setStarting(true);
+      setError(null);
+      setTorchOn(false);
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: { ideal: facing }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+          audio: false,
+        });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play().catch(() => {});
+        }
+        const [track] = stream.getVideoTracks();
+        const capabilities = (track?.getCapabilities?.() ?? {}) as TorchCapabilities;
+        setTorchSupported(!!capabilities.torch);
+        // Device labels and counts are only reliable once permission has been granted
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) setCanSwitch(devices.filter(device => device.kind === 'videoinput').length > 1);
+      } catch (err: any) {
+        if (cancelled) return;
+        console.warn('Camera unavailable:', err);
+        setError(err?.name === 'NotAllowedError' || err?.name === 'SecurityError' ? 'denied' : 'unavailable');
+      } finally {
+        if (!cancelled) setStarting(false);
+      }
+    };
+
+    start();
+    return () => {
+      cancelled = true;
+      stopStream();
+    };
+  }, [isOpen, facing, shot]);
+
+  // Free the still's object URL when it is replaced or the modal closes
+  useEffect(() => () => { if (shot) URL.revokeObjectURL(shot.url); }, [shot]);
+
+  useEffect(() => {
+    if (!isOpen) setShot(null);
+  }, [isOpen]);
+
+  const toggleTorch = async () => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return;
+    const next = !torchOn;
+    try {
+      await track.applyConstraints({ advanced: [{ torch: next } as MediaTrackConstraintSet] });
+      setTorchOn(next);
+    } catch (err) {
+      console.warn('Torch toggle failed:', err);
+      setTorchSupported(false);
+    }
+  };
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth || shot) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    canvas.toBlob(blob => {
+      if (!blob) return;
+      setShot({ blob, url: URL.createObjectURL(blob) });
+      stopStream();
+    }, 'image/jpeg', 0.92);
+  };
+
+  const confirm = () => {
+    if (!shot) return;
+    onCapture(new File([shot.blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+    onClose();
+  };
+
+  const fallback = () => {
+    onClose();
+    onFallback();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, y: 20 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.9, y: 20 }}
+            className="bg-slate-900 rounded-3xl p-4 max-w-lg w-full shadow-2xl relative text-white"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-lg font-bold">{t.title}</h2>
+              <button onClick={onClose} aria-label={t.close} className="text-white/60 hover:text-white">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {error ? (
+              <div className="space-y-4 py-8 text-center">
+                <p className="text-white/80">{error === 'denied' ? t.denied : t.unavailable}</p>
+                <button
+                  onClick={fallback}
+                  className="mx-auto px-5 py-3 bg-indigo-600 hover:bg-indigo-700 rounded-xl font-bold flex items-center gap-2 transition-colors"
+                >
+                  <Upload className="w-5 h-5" />
+                  {t.chooseFile}
+                </button>
+              </div>
+            ) : (
+              <>
+                <div className="relative aspect-[3/4] bg-black rounded-2xl overflow-hidden">
+                  {shot ? (
+                    <img src={shot.url} alt={t.title} className="w-full h-full object-cover" />
+                  ) : (
+                    <video
+                      ref={videoRef}
+                      onClick={capture}
+                      playsInline
+                      muted
+                      className={`w-full h-full object-cover cursor-pointer ${facing === 'user' ? '-scale-x-100' : ''}`}
+                    />
+                  )}
+                  {starting && (
+                    <div className="absolute inset-0 flex items-center justify-center text-white/70 text-sm">{t.starting}</div>
+                  )}
+                  {!shot && !starting && (
+                    <p className="absolute bottom-3 inset-x-0 text-center text-xs text-white/70">{t.hint}</p>
+                  )}
+                </div>
+
+                {shot ? (
+                  <div className="flex gap-2 mt-4">
+                    <button
+                      onClick={() => setShot(null)}
+                      className="flex-1 py-3 bg-white/10 hover:bg-white/20 rounded-xl font-bold flex items-center justify-center gap-2 transition-colors"
+                    >
+                      <RotateCcw className="w-5 h-5" />
+                      {t.retake}
+                    </button>
+                    <button
+                      onClick={confirm}
+                      className="flex-1 py-3 bg-indigo-600 hover:bg-indigo-700 rounded-xl font-bold flex items-center justify-center gap-2 transition-colors"
+                    >
+                      <Check className="w-5 h-5" />
+                      {t.usePhoto}
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between mt-4 px-4">
+                    <button
+                      onClick={toggleTorch}
+                      disabled={!torchSupported}
+                      aria-label={torchOn ? t.torchOff : t.torchOn}
+                      aria-pressed={torchOn}
+                      className={`w-12 h-12 rounded-full flex items-center justify-center transition-colors disabled:invisible ${torchOn ? 'bg-amber-400 text-slate-900' : 'bg-white/10 hover:bg-white/20'}`}
+                    >
+                      {torchOn ? <Flashlight className="w-5 h-5" /> : <FlashlightOff className="w-5 h-5" />}
+                    </button>
+                    <button
+                      onClick={capture}
+                      disabled={starting}
+                      aria-label={t.capture}
+                      className="w-16 h-16 rounded-full bg-white text-slate-900 flex items-center justify-center border-4 border-white/40 active:scale-95 transition-transform disabled:opacity-50"
+                    >
+                      <Camera className="w-7 h-7" />
+                    </button>
+                    <button
+                      onClick={() => setFacing(prev => (prev === 'user' ? 'environment' : 'user'))}
+                      disabled={!canSwitch || starting}
+                      aria-label={t.switchCamera}
+                      className="w-12 h-12 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center transition-colors disabled:invisible"
+                    >
+                      <RefreshCw className="w-5 h-5" />
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,53 @@
+// components/CuisineRefusalCard.tsx
+import React from 'react';
+import { motion } from 'motion/react';
+import { Ban } from 'lucide-react';
+import type { CuisineRefusal, CuisineSelection, Language } from '../lib/recipe-engine/types';
+
+const translations = {
+  ar: { tryInstead: 'جرّب بدلاً من ذلك:' },
+  en: { tryInstead: 'Try instead:' },
+};
+
+interface CuisineRefusalCardProps {
+  /** Title and message arrive already localized by the server. */
+  refusal: CuisineRefusal;
+  lang: Language;
+  onPick: (cuisine: CuisineSelection) => void;
+}
+
+/** Shown instead of the generic error when the server refuses a cuisine by policy. */
+export const CuisineRefusalCard: React.FC<CuisineRefusalCardProps> = ({ refusal, lang, onPick }) => {
+  const t = translations[lang];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 10 }}
+      className="bg-white/90 backdrop-blur-md border border-amber-200 p-5 rounded-2xl text-slate-800 space-y-3"
+    >
+      <div className="flex items-start gap-3">
+        <Ban className="w-6 h-6 shrink-0 text-amber-600" />
+        <div>
+          <p className="font-bold text-amber-800">{refusal.title}</p>
+          <p className="text-sm text-slate-600">{refusal.message}</p>
+        </div>
+      </div>
+      {refusal.alternatives.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-bold text-slate-500">{t.tryInstead}</span>
+          {refusal.alternatives.map(alternative => (
+            <button
+              key={alternative.region}
+              onClick={() => onPick({ region: alternative.region })}
+              className="px-3 py-1.5 rounded-full text-sm bg-indigo-50 text-indigo-700 border border-indigo-100 hover:bg-indigo-100 transition-colors"
+            >
+              {alternative.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+};
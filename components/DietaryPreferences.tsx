@@ -0,0 +1,155 @@
+// components/DietaryPreferences.tsx
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronDown, Leaf } from 'lucide-react';
+import { ALLERGENS, DIETARY_RESTRICTIONS } from '../lib/recipe-engine/dietary';
+import type { Allergen, DietaryProfile, DietaryRestriction, DietaryWarning, Language } from '../lib/recipe-engine/types';
+
+const translations = {
+  ar: {
+    title: 'النظام الغذائي والحساسية',
+    halalNote: 'جميع الوصفات حلال دائماً.',
+    restrictions: 'النظام الغذائي:',
+    allergens: 'لدي حساسية من:',
+    warningTitle: 'تنبيه: قد لا تناسب هذه الوصفة نظامك الغذائي',
+    labels: {
+      halal: 'حلال',
+      vegetarian: 'نباتي',
+      vegan: 'نباتي صرف',
+      'gluten-free': 'خالٍ من الغلوتين',
+      'nut-free': 'خالٍ من المكسرات',
+      'dairy-free': 'خالٍ من الألبان',
+      'diabetic-friendly': 'مناسب لمرضى السكري',
+      'low-sodium': 'قليل الملح',
+      nuts: 'المكسرات',
+      peanuts: 'الفول السوداني',
+      dairy: 'الألبان',
+      eggs: 'البيض',
+      gluten: 'الغلوتين',
+      fish: 'السمك',
+      shellfish: 'المحار والقشريات',
+      sesame: 'السمسم',
+      soy: 'الصويا',
+    } as Record<DietaryWarning['rule'], string>,
+  },
+  en: {
+    title: 'Diet & allergies',
+    halalNote: 'All recipes are always halal.',
+    restrictions: 'Diet:',
+    allergens: 'I am allergic to:',
+    warningTitle: 'Heads up: this recipe may not fit your diet',
+    labels: {
+      halal: 'Halal',
+      vegetarian: 'Vegetarian',
+      vegan: 'Vegan',
+      'gluten-free': 'Gluten-free',
+      'nut-free': 'Nut-free',
+      'dairy-free': 'Dairy-free',
+      'diabetic-friendly': 'Diabetic-friendly',
+      'low-sodium': 'Low-sodium',
+      nuts: 'Tree nuts',
+      peanuts: 'Peanuts',
+      dairy: 'Dairy',
+      eggs: 'Eggs',
+      gluten: 'Gluten',
+      fish: 'Fish',
+      shellfish: 'Shellfish',
+      sesame: 'Sesame',
+      soy: 'Soy',
+    } as Record<DietaryWarning['rule'], string>,
+  }
+};
+
+interface DietaryPreferencesProps {
+  profile: DietaryProfile;
+  onChange: (profile: DietaryProfile) => void;
+  lang: Language;
+}
+
+function toggle<T>(list: T[], item: T): T[] {
+  return list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+}
+
+export const DietaryPreferences: React.FC<DietaryPreferencesProps> = ({ profile, onChange, lang }) => {
+  const [open, setOpen] = useState(false);
+  const t = translations[lang];
+  const selected = profile.restrictions.length + profile.allergens.length;
+
+  const chip = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-sm border transition-all ${
+      active ? 'bg-white text-indigo-600 border-white font-bold' : 'bg-white/10 text-white border-white/30 hover:bg-white/20'
+    }`;
+
+  return (
+    <section className="bg-white/20 backdrop-blur-md rounded-3xl border border-white/30">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full px-6 py-4 flex items-center justify-between text-white font-bold"
+      >
+        <span className="flex items-center gap-2">
+          <Leaf className="w-5 h-5" />
+          {t.title}
+          {selected > 0 && <span className="bg-white text-indigo-600 rounded-full px-2 text-xs">{selected}</span>}
+        </span>
+        <ChevronDown className={`w-5 h-5 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+      {open && (
+        <div className="px-6 pb-6 space-y-4">
+          <p className="text-white/80 text-sm">{t.halalNote}</p>
+          <div>
+            <p className="text-white text-sm font-bold mb-2">{t.restrictions}</p>
+            <div className="flex flex-wrap gap-2">
+              {DIETARY_RESTRICTIONS.map((restriction: DietaryRestriction) => (
+                <button
+                  key={restriction}
+                  onClick={() => onChange({ ...profile, restrictions: toggle(profile.restrictions, restriction) })}
+                  className={chip(profile.restrictions.includes(restriction))}
+                >
+                  {t.labels[restriction]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-white text-sm font-bold mb-2">{t.allergens}</p>
+            <div className="flex flex-wrap gap-2">
+              {ALLERGENS.map((allergen: Allergen) => (
+                <button
+                  key={allergen}
+                  onClick={() => onChange({ ...profile, allergens: toggle(profile.allergens, allergen) })}
+                  className={chip(profile.allergens.includes(allergen))}
+                >
+                  {t.labels[allergen]}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+/** Lists the ingredients the server flagged against the profile, grouped by ingredient. */
+export const DietaryWarnings: React.FC<{ warnings: DietaryWarning[]; lang: Language }> = ({ warnings, lang }) => {
+  const t = translations[lang];
+  const byIngredient = new Map<string, DietaryWarning['rule'][]>();
+  for (const warning of warnings) {
+    byIngredient.set(warning.ingredient, [...(byIngredient.get(warning.ingredient) ?? []), warning.rule]);
+  }
+
+  return (
+    <div className="mb-8 p-5 bg-red-50 rounded-3xl border border-red-200 text-red-800">
+      <h3 className="font-bold mb-2 flex items-center gap-2">
+        <AlertTriangle className="w-5 h-5" />
+        {t.warningTitle}
+      </h3>
+      <ul className="space-y-1 text-sm">
+        {[...byIngredient].map(([ingredient, rules]) => (
+          <li key={ingredient}>
+            <span className="font-bold">{ingredient}</span> — {rules.map(rule => t.labels[rule]).join(lang === 'ar' ? '، ' : ', ')}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+// components/IngredientReview.tsx
+import React, { useState } from 'react';
+import { Check, ChefHat, Plus, X } from 'lucide-react';
+import type { DetectedIngredient, Language } from '../lib/recipe-engine/types';
+import { MAX_INGREDIENT_LENGTH } from '../lib/recipe-engine/sanitize';
+
+/** Items the model is less sure about than this start out unticked. */
+const ACCEPT_THRESHOLD = 0.5;
+
+const translations = {
+  ar: {
+    title: 'راجع المكونات المكتشفة',
+    hint: 'أبقِ الصحيح منها، صحّح الأسماء، وأزل ما لم يكن موجوداً.',
+    unsure: 'غير متأكد',
+    addPlaceholder: 'أضف مكوناً فاتنا',
+    confirm: (n: number) => `ولّد وصفة من ${n} مكونات`,
+    cancel: 'إلغاء',
+    none: 'لم يُكتشف أي مكون. أضفها يدوياً.',
+  },
+  en: {
+    title: 'Review detected ingredients',
+    hint: 'Keep the right ones, fix names, and untick anything that is not there.',
+    unsure: 'unsure',
+    addPlaceholder: 'Add one we missed',
+    confirm: (n: number) => `Generate recipe from ${n} ingredients`,
+    cancel: 'Cancel',
+    none: 'Nothing was detected. Add the ingredients yourself.',
+  }
+};
+
+interface Row {
+  name: string;
+  accepted: boolean;
+  detected?: DetectedIngredient;
+}
+
+interface IngredientReviewProps {
+  detected: DetectedIngredient[];
+  /** Data URLs of the uploaded photos, in upload order, for drawing the detection boxes. */
+  previews: string[];
+  lang: Language;
+  busy?: boolean;
+  onConfirm: (ingredients: string[]) => void;
+  onCancel: () => void;
+}
+
+export const IngredientReview: React.FC<IngredientReviewProps> = ({ detected, previews, lang, busy, onConfirm, onCancel }) => {
+  const [rows, setRows] = useState<Row[]>(() =>
+    detected.map(item => ({ name: item.name, accepted: item.confidence >= ACCEPT_THRESHOLD, detected: item }))
+  );
+  const [newName, setNewName] = useState('');
+  const [highlighted, setHighlighted] = useState<number | null>(null);
+
+  const t = translations[lang];
+  const confirmed = rows.filter(row => row.accepted && row.name.trim()).map(row => row.name.trim());
+
+  const update = (index: number, patch: Partial<Row>) =>
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+  const addRow = () => {
+    if (!newName.trim()) return;
+    setRows(prev => [...prev, { name: newName.trim(), accepted: true }]);
+    setNewName('');
+  };
+
+  const boxesFor = (image: number) =>
+    rows
+      .map((row, index) => ({ row, index }))
+      .filter(({ row }) => row.accepted && row.detected?.box && (row.detected.image ?? 0) === image);
+
+  return (
+    <div className="mt-6 bg-white rounded-2xl p-5 text-slate-800 space-y-4">
+      <div>
+        <h3 className="font-bold text-lg text-indigo-900">{t.title}</h3>
+        <p className="text-sm text-slate-500">{t.hint}</p>
+      </div>
+
+      {previews.some((_, i) => boxesFor(i).length > 0) && (
+        <div className="grid grid-cols-2 gap-3">
+          {previews.map((preview, i) => (
+            <div key={preview} className="relative">
+              <img src={preview} alt={`Photo ${i + 1}`} className="w-full rounded-xl" />
+              {boxesFor(i).map(({ row, index }) => {
+                const box = row.detected!.box!;
+                return (
+                  <div
+                    key={index}
+                    className={`absolute border-2 rounded-md transition-colors ${highlighted === index ? 'border-pink-500 bg-pink-500/20' : 'border-emerald-400'}`}
+                    style={{ left: `${box.x * 100}%`, top: `${box.y * 100}%`, width: `${box.width * 100}%`, height: `${box.height * 100}%` }}
+                    title={row.name}
+                  />
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {rows.length === 0 && <p className="text-sm text-slate-500">{t.none}</p>}
+      <ul className="space-y-2">
+        {rows.map((row, i) => (
+          <li
+            key={i}
+            onMouseEnter={() => setHighlighted(i)}
+            onMouseLeave={() => setHighlighted(null)}
+            className={`flex items-center gap-3 p-2 rounded-xl border ${row.accepted ? 'border-indigo-100 bg-indigo-50/50' : 'border-slate-100 opacity-60'}`}
+          >
+            <button
+              onClick={() => update(i, { accepted: !row.accepted })}
+              aria-pressed={row.accepted}
+              className={`w-7 h-7 shrink-0 rounded-lg flex items-center justify-center border ${row.accepted ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-300 text-transparent'}`}
+            >
+              <Check className="w-4 h-4" />
+            </button>
+            <input
+              type="text"
+              value={row.name}
+              onChange={(e) => update(i, { name: e.target.value })}
+              maxLength={MAX_INGREDIENT_LENGTH}
+              className="flex-1 min-w-0 bg-transparent border-b border-transparent focus:border-indigo-300 focus:outline-none py-1"
+            />
+            {row.detected && (
+              <span
+                className={`text-xs font-bold shrink-0 ${row.detected.confidence >= ACCEPT_THRESHOLD ? 'text-emerald-600' : 'text-amber-600'}`}
+              >
+                {Math.round(row.detected.confidence * 100)}%
+                {row.detected.confidence < ACCEPT_THRESHOLD && ` · ${t.unsure}`}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addRow()}
+          placeholder={t.addPlaceholder}
+          maxLength={MAX_INGREDIENT_LENGTH}
+          className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-300"
+        />
+        <button onClick={addRow} className="bg-slate-100 text-indigo-600 px-3 rounded-xl hover:bg-slate-200 transition-colors">
+          <Plus className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onConfirm(confirmed)}
+          disabled={busy || confirmed.length === 0}
+          className="flex-1 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 text-white rounded-xl font-bold flex items-center justify-center gap-2 transition-colors"
+        >
+          <ChefHat className="w-5 h-5" />
+          {t.confirm(confirmed.length)}
+        </button>
+        <button
+          onClick={onCancel}
+          aria-label={t.cancel}
+          className="px-4 bg-slate-100 text-slate-600 rounded-xl hover:bg-slate-200 transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -7,6 +7,7 @@ import {
   signInWithEmailAndPassword, 
   createUserWithEmailAndPassword,
   signInWithPopup,
+  sendPasswordResetEmail,
   GoogleAuthProvider 
 } from 'firebase/auth';
 
@@ -29,12 +30,18 @@ const translations = {
     noAccount: 'ليس لديك حساب؟',
     hasAccount: 'لديك حساب بالفعل؟',
     createAccount: 'إنشاء حساب جديد',
+    forgotPassword: 'نسيت كلمة المرور؟',
+    resetPassword: 'استعادة كلمة المرور',
+    resetBtn: 'إرسال رابط الاستعادة',
+    resetSent: 'تم إرسال رابط استعادة كلمة المرور إلى بريدك الإلكتروني',
+    backToLogin: 'العودة لتسجيل الدخول',
     error: {
       'auth/invalid-email': 'بريد إلكتروني غير صالح',
       'auth/user-not-found': 'المستخدم غير موجود',
       'auth/wrong-password': 'كلمة مرور خاطئة',
       'auth/email-already-in-use': 'البريد الإلكتروني مستخدم مسبقاً',
       'auth/weak-password': 'كلمة المرور ضعيفة (6 أحرف على الأقل)',
+      'auth/missing-email': 'يرجى إدخال البريد الإلكتروني',
       'passwords-dont-match': 'كلمات المرور غير متطابقة'
     }
   },
@@ -50,24 +57,31 @@ const translations = {
     noAccount: 'Don\'t have an account?',
     hasAccount: 'Already have an account?',
     createAccount: 'Create new account',
+    forgotPassword: 'Forgot password?',
+    resetPassword: 'Reset Password',
+    resetBtn: 'Send reset link',
+    resetSent: 'A password reset link has been sent to your email',
+    backToLogin: 'Back to login',
     error: {
       'auth/invalid-email': 'Invalid email address',
       'auth/user-not-found': 'User not found',
       'auth/wrong-password': 'Wrong password',
       'auth/email-already-in-use': 'Email already in use',
       'auth/weak-password': 'Password is too weak (min 6 characters)',
+      'auth/missing-email': 'Please enter your email',
       'passwords-dont-match': 'Passwords do not match'
     }
   }
 };
 
 export const LoginModal: React.FC<LoginProps> = ({ isOpen, onClose, lang }) => {
-  const [mode, setMode] = useState<'login' | 'signup'>('login');
+  const [mode, setMode] = useState<'login' | 'signup' | 'reset'>('login');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   
   const t = translations[lang];
   const isRtl = lang === 'ar';
@@ -86,6 +100,30 @@ export const LoginModal: React.FC<LoginProps> = ({ isOpen, onClose, lang }) => {
     }
   };
 
+  const handlePasswordReset = async () => {
+    setError(null);
+    setNotice(null);
+    if (!email) {
+      setError(t.error['auth/missing-email']);
+      return;
+    }
+    setLoading(true);
+    try {
+      await sendPasswordResetEmail(auth, email);
+      setNotice(t.resetSent);
+    } catch (err: any) {
+      setError(t.error[err.code as keyof typeof t.error] || err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const switchMode = (next: typeof mode) => {
+    setMode(next);
+    setError(null);
+    setNotice(null);
+  };
+
   const handleEmailAuth = async () => {
     setError(null);
     
@@ -134,7 +172,7 @@ export const LoginModal: React.FC<LoginProps> = ({ isOpen, onClose, lang }) => {
             </button>
 
             <h2 className="text-2xl font-bold text-center mb-6 bg-gradient-to-r from-indigo-600 to-pink-600 bg-clip-text text-transparent">
-              {mode === 'login' ? t.login : t.signup}
+              {mode === 'login' ? t.login : mode === 'signup' ? t.signup : t.resetPassword}
             </h2>
 
             <div className="space-y-4">
@@ -145,15 +183,26 @@ export const LoginModal: React.FC<LoginProps> = ({ isOpen, onClose, lang }) => {
                 onChange={(e) => setEmail(e.target.value)}
                 className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500"
               />
-              
-              <input
-                type="password"
-                placeholder={t.password}
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500"
-              />
-              
+
+              {mode !== 'reset' && (
+                <input
+                  type="password"
+                  placeholder={t.password}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              )}
+
+              {mode === 'login' && (
+                <button
+                  onClick={() => switchMode('reset')}
+                  className="text-sm text-indigo-600 hover:text-indigo-800"
+                >
+                  {t.forgotPassword}
+                </button>
+              )}
+
               {mode === 'signup' && (
                 <input
                   type="password"
@@ -170,33 +219,62 @@ export const LoginModal: React.FC<LoginProps> = ({ isOpen, onClose, lang }) => {
                 </div>
               )}
 
-              <button
-                onClick={handleEmailAuth}
-                disabled={loading}
-                className="w-full py-3 bg-gradient-to-r from-indigo-600 to-pink-600 text-white rounded-xl font-bold hover:from-indigo-700 hover:to-pink-700 transition-all flex items-center justify-center gap-2"
-              >
-                {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : null}
-                {mode === 'login' ? t.loginBtn : t.signupBtn}
-              </button>
-
-              <button
-                onClick={handleGoogleLogin}
-                disabled={loading}
-                className="w-full py-3 bg-white border border-gray-200 text-gray-700 rounded-xl font-bold hover:bg-gray-50 transition-all flex items-center justify-center gap-2"
-              >
-                <img src="/google-icon.svg" className="w-5 h-5" alt="Google" />
-                {t.google}
-              </button>
-
-              <div className="text-center text-sm text-gray-500">
-                {mode === 'login' ? t.noAccount : t.hasAccount}
-                <button
-                  onClick={() => setMode(mode === 'login' ? 'signup' : 'login')}
-                  className="text-indigo-600 hover:text-indigo-800 mr-1"
-                >
-                  {mode === 'login' ? t.createAccount : t.login}
-                </button>
-              </div>
+              {notice && (
+                <div className="p-3 bg-green-50 text-green-700 rounded-xl text-sm">
+                  {notice}
+                </div>
+              )}
+
+              {mode === 'reset' ? (
+                <>
+                  <button
+                    onClick={handlePasswordReset}
+                    disabled={loading}
+                    className="w-full py-3 bg-gradient-to-r from-indigo-600 to-pink-600 text-white rounded-xl font-bold hover:from-indigo-700 hover:to-pink-700 transition-all flex items-center justify-center gap-2"
+                  >
+                    {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : null}
+                    {t.resetBtn}
+                  </button>
+                  <div className="text-center text-sm">
+                    <button
+                      onClick={() => switchMode('login')}
+                      className="text-indigo-600 hover:text-indigo-800"
+                    >
+                      {t.backToLogin}
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={handleEmailAuth}
+                    disabled={loading}
+                    className="w-full py-3 bg-gradient-to-r from-indigo-600 to-pink-600 text-white rounded-xl font-bold hover:from-indigo-700 hover:to-pink-700 transition-all flex items-center justify-center gap-2"
+                  >
+                    {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : null}
+                    {mode === 'login' ? t.loginBtn : t.signupBtn}
+                  </button>
+
+                  <button
+                    onClick={handleGoogleLogin}
+                    disabled={loading}
+                    className="w-full py-3 bg-white border border-gray-200 text-gray-700 rounded-xl font-bold hover:bg-gray-50 transition-all flex items-center justify-center gap-2"
+                  >
+                    <img src="/google-icon.svg" className="w-5 h-5" alt="Google" />
+                    {t.google}
+                  </button>
+
+                  <div className="text-center text-sm text-gray-500">
+                    {mode === 'login' ? t.noAccount : t.hasAccount}
+                    <button
+                      onClick={() => switchMode(mode === 'login' ? 'signup' : 'login')}
+                      className="text-indigo-600 hover:text-indigo-800 mr-1"
+                    >
+                      {mode === 'login' ? t.createAccount : t.login}
+                    </button>
+                  </div>
+                </>
+              )}
             </div>
           </motion.div>
         </motion.div>
@@ -0,0 +1,183 @@
+// components/MyRecipes.tsx
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { X, BookOpen, Pencil, Trash2, Check, Loader2, UtensilsCrossed } from 'lucide-react';
+import {
+  deleteSavedRecipe,
+  listSavedRecipes,
+  renameSavedRecipe,
+  type SavedRecipe,
+} from '../lib/savedRecipes';
+
+interface MyRecipesProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpen: (saved: SavedRecipe) => void;
+  uid: string;
+  lang: 'ar' | 'en';
+}
+
+const translations = {
+  ar: {
+    title: 'وصفاتي',
+    empty: 'لم تحفظ أي وصفة بعد',
+    open: 'فتح',
+    rename: 'إعادة تسمية',
+    delete: 'حذف',
+    confirmDelete: 'هل تريد حذف هذه الوصفة؟',
+    loadError: 'تعذر تحميل الوصفات',
+  },
+  en: {
+    title: 'My Recipes',
+    empty: 'You have not saved any recipes yet',
+    open: 'Open',
+    rename: 'Rename',
+    delete: 'Delete',
+    confirmDelete: 'Delete this recipe?',
+    loadError: 'Could not load your recipes',
+  }
+};
+
+export const MyRecipes: React.FC<MyRecipesProps> = ({ isOpen, onClose, onOpen, uid, lang }) => {
+  const [recipes, setRecipes] = useState<SavedRecipe[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+
+  const t = translations[lang];
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setLoading(true);
+    setError(null);
+    listSavedRecipes(uid)
+      .then(setRecipes)
+      .catch(() => setError(t.loadError))
+      .finally(() => setLoading(false));
+  }, [isOpen, uid]);
+
+  const startRename = (saved: SavedRecipe) => {
+    setEditingId(saved.id);
+    setEditTitle(saved.title);
+  };
+
+  const handleRename = async (id: string) => {
+    const title = editTitle.trim();
+    if (!title) return;
+    try {
+      await renameSavedRecipe(uid, id, title);
+      setRecipes(prev => prev.map(r => (r.id === id ? { ...r, title } : r)));
+      setEditingId(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm(t.confirmDelete)) return;
+    try {
+      await deleteSavedRecipe(uid, id);
+      setRecipes(prev => prev.filter(r => r.id !== id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, y: 20 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.9, y: 20 }}
+            className="bg-white rounded-3xl p-8 max-w-2xl w-full max-h-[85vh] overflow-y-auto shadow-2xl relative"
+            onClick={e => e.stopPropagation()}
+          >
+            <button
+              onClick={onClose}
+              className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-6 h-6" />
+            </button>
+
+            <h2 className="text-2xl font-bold text-center mb-6 bg-gradient-to-r from-indigo-600 to-pink-600 bg-clip-text text-transparent flex items-center justify-center gap-2">
+              <BookOpen className="w-6 h-6 text-indigo-600" />
+              {t.title}
+            </h2>
+
+            {error && (
+              <div className="p-3 mb-4 bg-red-50 text-red-600 rounded-xl text-sm">
+                {error}
+              </div>
+            )}
+
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-indigo-500" />
+              </div>
+            ) : recipes.length === 0 ? (
+              <p className="text-center text-gray-500 py-12">{t.empty}</p>
+            ) : (
+              <ul className="space-y-3">
+                {recipes.map(saved => (
+                  <li key={saved.id} className="flex items-center gap-4 p-3 rounded-2xl border border-gray-100 hover:bg-gray-50">
+                    {saved.thumbnail ? (
+                      <img src={saved.thumbnail} alt="" className="w-16 h-16 rounded-xl object-cover shrink-0" />
+                    ) : (
+                      <div className="w-16 h-16 rounded-xl bg-indigo-50 flex items-center justify-center shrink-0">
+                        <UtensilsCrossed className="w-6 h-6 text-indigo-400" />
+                      </div>
+                    )}
+
+                    <div className="flex-1 min-w-0">
+                      {editingId === saved.id ? (
+                        <input
+                          autoFocus
+                          value={editTitle}
+                          onChange={(e) => setEditTitle(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleRename(saved.id)}
+                          className="w-full px-3 py-1.5 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                      ) : (
+                        <button onClick={() => onOpen(saved)} className="text-start w-full">
+                          <p className="font-bold text-indigo-900 truncate">{saved.title}</p>
+                          <p className="text-xs text-gray-500 truncate">
+                            {saved.cuisineType}
+                            {saved.createdAt && ` · ${saved.createdAt.toLocaleDateString(lang === 'ar' ? 'ar' : 'en')}`}
+                          </p>
+                        </button>
+                      )}
+                    </div>
+
+                    <div className="flex gap-1 shrink-0">
+                      {editingId === saved.id ? (
+                        <button onClick={() => handleRename(saved.id)} title={t.rename} className="p-2 rounded-lg text-green-600 hover:bg-green-50">
+                          <Check className="w-5 h-5" />
+                        </button>
+                      ) : (
+                        <button onClick={() => startRename(saved)} title={t.rename} className="p-2 rounded-lg text-indigo-600 hover:bg-indigo-50">
+                          <Pencil className="w-5 h-5" />
+                        </button>
+                      )}
+                      <button onClick={() => handleDelete(saved.id)} title={t.delete} className="p-2 rounded-lg text-red-500 hover:bg-red-50">
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
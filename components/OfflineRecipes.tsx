@@ -0,0 +1,153 @@
+// components/OfflineRecipes.tsx
+import React from 'react';
+import { BookOpen, CheckCircle2, Clock, WifiOff, X } from 'lucide-react';
+import type { Language } from '../lib/recipe-engine/types';
+import { QUEUE_RETENTION_MINUTES, type OfflineRecipe, type QueuedRecipe } from '../lib/offlineRecipes';
+
+const translations = {
+  ar: {
+    offline: 'أنت غير متصل. الوصفات المحفوظة على هذا الجهاز متاحة للقراءة، وأي وصفة تطلبها ستُحضَّر عند عودة الاتصال.',
+    queuedTitle: 'بانتظار الاتصال',
+    pending: 'ستُحضَّر عند عودة الاتصال',
+    expired: 'انتهت مهلة الطلب دون اتصال',
+    photo: 'صور',
+    ready: 'وصفتك التي طلبتها دون اتصال جاهزة',
+    view: 'عرض',
+    dismiss: 'إخفاء',
+    recentTitle: 'وصفات على هذا الجهاز',
+  },
+  en: {
+    offline: 'You are offline. Recipes stored on this device can still be read, and any recipe you ask for will be made once you are back online.',
+    queuedTitle: 'Waiting for a connection',
+    pending: 'Will be made when you are back online',
+    expired: 'The request expired before a connection came back',
+    photo: 'Photos',
+    ready: 'The recipe you asked for offline is ready',
+    view: 'View',
+    dismiss: 'Dismiss',
+    recentTitle: 'Recipes on this device',
+  }
+};
+
+interface OfflineRecipesProps {
+  lang: Language;
+  online: boolean;
+  queued: QueuedRecipe[];
+  recent: OfflineRecipe[];
+  /** A queued recipe that finished while the app was open. */
+  ready: OfflineRecipe | null;
+  onOpen: (entry: OfflineRecipe) => void;
+  onDismissQueued: (id: string) => void;
+  onDismissReady: () => void;
+}
+
+const isExpired = (entry: QueuedRecipe) => Date.now() - entry.queuedAt > QUEUE_RETENTION_MINUTES * 60_000;
+
+export const OfflineRecipes: React.FC<OfflineRecipesProps> = ({
+  lang,
+  online,
+  queued,
+  recent,
+  ready,
+  onOpen,
+  onDismissQueued,
+  onDismissReady,
+}) => {
+  const t = translations[lang];
+  if (online && !queued.length && !ready) return null;
+
+  const label = (entry: { sourceIngredients: string[]; thumbnail?: string | null }) =>
+    entry.sourceIngredients.join(lang === 'ar' ? '، ' : ', ') || t.photo;
+
+  return (
+    <section className="bg-white/90 backdrop-blur-xl rounded-3xl p-5 shadow-xl space-y-4 text-slate-800">
+      {!online && (
+        <p className="flex items-start gap-2 text-sm text-slate-600">
+          <WifiOff className="w-5 h-5 shrink-0 text-indigo-600" />
+          {t.offline}
+        </p>
+      )}
+
+      {ready && (
+        <div className="flex items-center gap-3 p-3 rounded-2xl bg-emerald-50 border border-emerald-200">
+          <CheckCircle2 className="w-5 h-5 shrink-0 text-emerald-600" />
+          <p className="flex-1 text-sm font-medium text-emerald-900">
+            {t.ready}: {ready.recipe.recipeName}
+          </p>
+          <button
+            onClick={() => onOpen(ready)}
+            className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg text-sm font-bold transition-colors"
+          >
+            {t.view}
+          </button>
+          <button onClick={onDismissReady} aria-label={t.dismiss} className="text-emerald-700/60 hover:text-emerald-700">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {queued.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-bold text-indigo-900">{t.queuedTitle}</h3>
+          <ul className="space-y-2">
+            {queued.map(entry => {
+              const failed = entry.status === 'failed' || isExpired(entry);
+              return (
+                <li key={entry.id} className="flex items-center gap-3 p-2 rounded-xl border border-slate-100">
+                  {entry.thumbnail ? (
+                    <img src={entry.thumbnail} alt="" className="w-10 h-10 rounded-lg object-cover shrink-0" />
+                  ) : (
+                    <Clock className="w-5 h-5 shrink-0 text-slate-400" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{label(entry)}</p>
+                    <p className={`text-xs ${failed ? 'text-red-600' : 'text-slate-500'}`}>
+                      {entry.status === 'failed' ? entry.error : failed ? t.expired : t.pending}
+                    </p>
+                  </div>
+                  {failed && (
+                    <button
+                      onClick={() => onDismissQueued(entry.id)}
+                      aria-label={t.dismiss}
+                      className="text-slate-400 hover:text-slate-600"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {!online && recent.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-bold text-indigo-900">{t.recentTitle}</h3>
+          <ul className="space-y-2">
+            {recent.map(entry => (
+              <li key={entry.id}>
+                <button
+                  onClick={() => onOpen(entry)}
+                  className="w-full flex items-center gap-3 p-2 rounded-xl border border-slate-100 hover:bg-indigo-50 text-start transition-colors"
+                >
+                  {entry.thumbnail ? (
+                    <img src={entry.thumbnail} alt="" className="w-10 h-10 rounded-lg object-cover shrink-0" />
+                  ) : (
+                    <BookOpen className="w-5 h-5 shrink-0 text-indigo-400" />
+                  )}
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm font-medium truncate">{entry.recipe.recipeName}</span>
+                    <span className="block text-xs text-slate-500 truncate">
+                      {entry.cuisineType} · {new Date(entry.createdAt).toLocaleDateString(lang === 'ar' ? 'ar' : 'en')}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+};
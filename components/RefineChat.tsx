@@ -0,0 +1,172 @@
+// components/RefineChat.tsx
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Loader2, MessageSquare, Send } from 'lucide-react';
+import type { CuisineRefusal, CuisineSelection, DietaryProfile, Language, Recipe, RecipeChange, RefineResult } from '../lib/recipe-engine/types';
+import { ApiError, authHeaders, cuisineRefusalOf } from '../lib/apiClient';
+import { MAX_INSTRUCTION_LENGTH } from '../lib/recipe-engine/sanitize';
+import { CuisineRefusalCard } from './CuisineRefusalCard';
+
+interface RefineChatProps {
+  /** The recipe as generated (unscaled); refinements are applied to it and replace it. */
+  recipe: Recipe;
+  dietary?: DietaryProfile;
+  lang: Language;
+  onRefined: (recipe: Recipe) => void;
+  /** Called with every API response, e.g. to track quota or open the login modal on 401. */
+  onResponse?: (response: Response) => void;
+  /** Called when the user picks one of the regions offered by a cuisine refusal. */
+  onPickCuisine: (cuisine: CuisineSelection) => void;
+}
+
+interface Turn {
+  instruction: string;
+  changes?: RecipeChange[];
+  error?: string;
+  /** Set instead of `error` when the server refused the change by cuisine policy. */
+  refusal?: CuisineRefusal;
+}
+
+const translations = {
+  ar: {
+    title: 'عدّل الوصفة',
+    placeholder: 'مثلاً: اجعلها أكثر حرارة، بدون ألبان، في الفرن بدل القلي',
+    send: 'إرسال',
+    noChanges: 'لم يتغير شيء في الوصفة',
+    ingredient: 'مكوّن',
+    step: 'خطوة',
+    fields: {
+      recipeName: 'الاسم',
+      prepTime: 'التحضير',
+      cookTime: 'الطهي',
+      difficulty: 'الصعوبة',
+      chefTips: 'نصائح الشيف',
+    } as Record<string, string>,
+  },
+  en: {
+    title: 'Refine this recipe',
+    placeholder: 'e.g. make it spicier, no dairy, oven instead of frying',
+    send: 'Send',
+    noChanges: 'Nothing in the recipe changed',
+    ingredient: 'Ingredient',
+    step: 'Step',
+    fields: {
+      recipeName: 'Name',
+      prepTime: 'Prep',
+      cookTime: 'Cook',
+      difficulty: 'Difficulty',
+      chefTips: "Chef's tips",
+    } as Record<string, string>,
+  }
+};
+
+const MARKERS = { added: '+', removed: '−', changed: '~' };
+const MARKER_STYLES = {
+  added: 'text-emerald-600',
+  removed: 'text-red-500 line-through',
+  changed: 'text-amber-600',
+};
+
+export const RefineChat: React.FC<RefineChatProps> = ({ recipe, dietary, lang, onRefined, onResponse, onPickCuisine }) => {
+  const [turns, setTurns] = useState<Turn[]>([]);
+  const [input, setInput] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const t = translations[lang];
+
+  const label = (change: RecipeChange) =>
+    change.section === 'field' ? t.fields[change.field!] ?? change.field : change.section === 'step' ? t.step : t.ingredient;
+
+  const describe = (change: RecipeChange) =>
+    change.kind === 'changed' ? `${change.before} → ${change.after}` : change.after ?? change.before;
+
+  const send = async () => {
+    const instruction = input.trim();
+    if (!instruction || sending) return;
+    setInput('');
+    setSending(true);
+    try {
+      const response = await fetch('/api/refine-recipe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+        body: JSON.stringify({ recipe, instruction, language: lang, dietary }),
+      });
+      onResponse?.(response);
+      const data = await response.json();
+      if (data.error) throw new ApiError(data);
+      const result = data as RefineResult;
+      setTurns(prev => [...prev, { instruction, changes: result.changes }]);
+      onRefined(result.recipe);
+    } catch (err: any) {
+      const refusal = cuisineRefusalOf(err);
+      setTurns(prev => [...prev, refusal ? { instruction, refusal } : { instruction, error: err.message || String(err) }]);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="mt-10 pt-8 border-t border-slate-100">
+      <h3 className="text-xl font-bold text-indigo-900 mb-4 flex items-center gap-2">
+        <MessageSquare className="w-5 h-5" />
+        {t.title}
+      </h3>
+
+      <div className="space-y-4 mb-4">
+        <AnimatePresence initial={false}>
+          {turns.map((turn, i) => (
+            <motion.div key={i} initial={{ opacity: 0, y: 8 }} animate={{ opacity: 1, y: 0 }} className="space-y-2">
+              <p className="ms-auto w-fit max-w-[85%] bg-indigo-600 text-white px-4 py-2 rounded-2xl text-sm">
+                {turn.instruction}
+              </p>
+              {turn.refusal ? (
+                <div className="max-w-[85%]">
+                  <CuisineRefusalCard refusal={turn.refusal} lang={lang} onPick={onPickCuisine} />
+                </div>
+              ) : (
+                <div className="w-fit max-w-[85%] bg-slate-50 border border-slate-100 px-4 py-3 rounded-2xl text-sm">
+                  {turn.error ? (
+                    <p className="text-red-600">{turn.error}</p>
+                  ) : turn.changes!.length === 0 ? (
+                    <p className="text-slate-500">{t.noChanges}</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {turn.changes!.map((change, j) => (
+                        <li key={j} className="flex gap-2">
+                          <span className={`font-bold ${MARKER_STYLES[change.kind].split(' ')[0]}`}>{MARKERS[change.kind]}</span>
+                          <span className="font-bold text-slate-500 shrink-0">{label(change)}:</span>
+                          <span className={MARKER_STYLES[change.kind]}>{describe(change)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && send()}
+          placeholder={t.placeholder}
+          maxLength={MAX_INSTRUCTION_LENGTH}
+          disabled={sending}
+          className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-slate-800 focus:outline-none focus:ring-2 focus:ring-indigo-300"
+        />
+        <button
+          onClick={send}
+          disabled={sending || !input.trim()}
+          aria-label={t.send}
+          className="bg-indigo-600 text-white px-4 rounded-xl hover:bg-indigo-700 disabled:bg-slate-200 disabled:text-slate-500 transition-colors"
+        >
+          {sending ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5 rtl:-scale-x-100" />}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+// components/UserMenu.tsx
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { LogIn, LogOut, BookOpen } from 'lucide-react';
+import { useAuth } from './AuthProvider';
+
+interface UserMenuProps {
+  lang: 'ar' | 'en';
+  onSignIn: () => void;
+  onOpenMyRecipes: () => void;
+}
+
+const translations = {
+  ar: {
+    signIn: 'تسجيل الدخول',
+    signOut: 'تسجيل الخروج',
+    myRecipes: 'وصفاتي',
+  },
+  en: {
+    signIn: 'Sign in',
+    signOut: 'Sign out',
+    myRecipes: 'My Recipes',
+  }
+};
+
+export const UserMenu: React.FC<UserMenuProps> = ({ lang, onSignIn, onOpenMyRecipes }) => {
+  const { user, initializing, signOut } = useAuth();
+  const [open, setOpen] = useState(false);
+  const t = translations[lang];
+
+  if (initializing) return null;
+
+  if (!user) {
+    return (
+      <button
+        onClick={onSignIn}
+        className="bg-white/20 backdrop-blur-md px-4 py-2 rounded-xl border border-white/30 text-white hover:bg-white/30 transition-all flex items-center gap-2"
+      >
+        <LogIn className="w-4 h-4" />
+        {t.signIn}
+      </button>
+    );
+  }
+
+  const label = user.displayName || user.email || '';
+  const initials = label.slice(0, 1).toUpperCase();
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-11 h-11 rounded-full overflow-hidden border-2 border-white/60 bg-white/20 backdrop-blur-md text-white font-bold flex items-center justify-center"
+      >
+        {user.photoURL ? <img src={user.photoURL} alt={label} className="w-full h-full object-cover" /> : initials}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            className="absolute end-0 mt-2 w-56 bg-white rounded-2xl shadow-2xl p-2 z-40 text-slate-700"
+          >
+            <p className="px-3 py-2 text-sm text-slate-500 truncate border-b border-slate-100 mb-1">{label}</p>
+            <button
+              onClick={() => { setOpen(false); onOpenMyRecipes(); }}
+              className="w-full px-3 py-2 rounded-xl hover:bg-indigo-50 flex items-center gap-2 text-start"
+            >
+              <BookOpen className="w-4 h-4 text-indigo-600" />
+              {t.myRecipes}
+            </button>
+            <button
+              onClick={() => { setOpen(false); signOut(); }}
+              className="w-full px-3 py-2 rounded-xl hover:bg-red-50 text-red-600 flex items-center gap-2 text-start"
+            >
+              <LogOut className="w-4 h-4" />
+              {t.signOut}
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
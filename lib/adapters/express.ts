@@ -0,0 +1,53 @@
+// lib/adapters/express.ts
+import express, { type Request, type Response } from "express";
+import {
+  analyzeImageEndpoint,
+  detectIngredientsEndpoint,
+  generateRecipeEndpoint,
+  parseJsonText,
+  parseMultipart,
+  refineRecipeEndpoint,
+  runEndpoint,
+  type ApiRequest,
+  type Endpoint,
+} from "../recipe-engine";
+
+function toApiRequest(req: Request): ApiRequest {
+  return {
+    method: req.method,
+    headers: req.headers as Record<string, string | undefined>,
+    ip: req.ip,
+    supportsStreaming: true,
+    // Non-multipart bodies arrive as text and go through the same parser as on Vercel and Netlify,
+    // so malformed JSON gets the engine's JSON 400 rather than Express's HTML error page
+    json: async () => parseJsonText(typeof req.body === "string" ? req.body : ""),
+    multipart: () => parseMultipart(req.headers["content-type"], req),
+  };
+}
+
+function route(name: string, endpoint: Endpoint) {
+  return async (req: Request, res: Response) => {
+    const result = await runEndpoint(name, endpoint, toApiRequest(req));
+    res.status(result.status).set(result.headers);
+    if (result.stream) {
+      res.flushHeaders();
+      for await (const frame of result.stream) res.write(frame);
+      res.end();
+    } else if (result.body === undefined) {
+      res.end();
+    } else {
+      res.send(JSON.stringify(result.body));
+    }
+  };
+}
+
+/** Mounts every API endpoint; server.ts uses this under /api. */
+export function createApiRouter(): express.Router {
+  const router = express.Router();
+  router.use(express.text({ type: (req) => !String(req.headers["content-type"] || "").includes("multipart/form-data") }));
+  router.all("/generate-recipe", route("generate-recipe", generateRecipeEndpoint));
+  router.all("/analyze-image", route("analyze-image", analyzeImageEndpoint));
+  router.all("/detect-ingredients", route("detect-ingredients", detectIngredientsEndpoint));
+  router.all("/refine-recipe", route("refine-recipe", refineRecipeEndpoint));
+  return router;
+}
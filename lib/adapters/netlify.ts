@@ -0,0 +1,48 @@
+// lib/adapters/netlify.ts
+import { parseJsonText, parseMultipart, runEndpoint, type ApiRequest, type Endpoint } from "../recipe-engine";
+
+export interface NetlifyEvent {
+  httpMethod: string;
+  body: string | null;
+  headers: Record<string, string | undefined>;
+  isBase64Encoded?: boolean;
+}
+
+export interface NetlifyResult {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+function rawBody(event: NetlifyEvent): Buffer {
+  if (!event.body) return Buffer.alloc(0);
+  return Buffer.from(event.body, event.isBase64Encoded ? "base64" : "utf8");
+}
+
+function toApiRequest(event: NetlifyEvent): ApiRequest {
+  const headers: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(event.headers || {})) {
+    headers[key.toLowerCase()] = value;
+  }
+  return {
+    method: event.httpMethod,
+    headers,
+    // Lambda-style functions return one buffered body, so clients get the plain JSON response
+    supportsStreaming: false,
+    ip: headers["x-nf-client-connection-ip"] || headers["x-forwarded-for"]?.split(",")[0].trim(),
+    json: async () => parseJsonText(rawBody(event).toString("utf8")),
+    multipart: () => parseMultipart(headers["content-type"], rawBody(event)),
+  };
+}
+
+/** Wraps an endpoint as a Netlify (Lambda-style) function handler. */
+export function createNetlifyHandler(name: string, endpoint: Endpoint) {
+  return async (event: NetlifyEvent): Promise<NetlifyResult> => {
+    const result = await runEndpoint(name, endpoint, toApiRequest(event));
+    return {
+      statusCode: result.status,
+      headers: result.headers || {},
+      body: result.body === undefined ? "" : JSON.stringify(result.body),
+    };
+  };
+}
@@ -0,0 +1,39 @@
+// lib/adapters/vercel.ts
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { parseJsonText, parseMultipart, runEndpoint, type ApiRequest, type Endpoint } from "../recipe-engine";
+
+function readText(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let raw = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => { raw += chunk; });
+    req.on("end", () => resolve(raw));
+    req.on("error", reject);
+  });
+}
+
+function toApiRequest(req: IncomingMessage): ApiRequest {
+  return {
+    method: req.method || "GET",
+    headers: req.headers as Record<string, string | undefined>,
+    supportsStreaming: true,
+    // Vercel's edge sets x-forwarded-for itself, so its first entry is the real client
+    ip: String(req.headers["x-forwarded-for"] || "").split(",")[0].trim() || req.socket.remoteAddress,
+    json: async () => parseJsonText(await readText(req)),
+    multipart: () => parseMultipart(req.headers["content-type"], req),
+  };
+}
+
+/** Wraps an endpoint as a Vercel Node.js serverless function. */
+export function createVercelHandler(name: string, endpoint: Endpoint) {
+  return async function handler(req: IncomingMessage, res: ServerResponse) {
+    const result = await runEndpoint(name, endpoint, toApiRequest(req));
+    res.writeHead(result.status, result.headers);
+    if (result.stream) {
+      for await (const frame of result.stream) res.write(frame);
+      res.end();
+      return;
+    }
+    res.end(result.body === undefined ? undefined : JSON.stringify(result.body));
+  };
+}
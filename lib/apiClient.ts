@@ -0,0 +1,75 @@
+// lib/apiClient.ts
+// Browser-side helpers for calling /api/*.
+import { auth } from './firebase';
+import type { CuisineRefusal, Recipe } from './recipe-engine/types';
+
+/** Authorization header with the signed-in user's Firebase ID token, or nothing when signed out. */
+export async function authHeaders(): Promise<Record<string, string>> {
+  const token = await auth.currentUser?.getIdToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/** An `{ error, code?, details? }` body from /api/*, kept whole so callers can branch on `code`. */
+export class ApiError extends Error {
+  readonly code?: string;
+  readonly details?: Record<string, unknown>;
+
+  constructor(body: { error: string; code?: string; details?: Record<string, unknown> }) {
+    super(body.error);
+    this.name = 'ApiError';
+    this.code = body.code;
+    this.details = body.details;
+  }
+}
+
+/** The localized refusal the server sends for an off-policy cuisine (see recipe-engine/policy.ts). */
+export function cuisineRefusalOf(err: unknown): CuisineRefusal | undefined {
+  if (!(err instanceof ApiError) || err.code !== 'cuisine_not_allowed') return undefined;
+  return err.details?.refusal as CuisineRefusal | undefined;
+}
+
+/** Accept header for endpoints that can stream a recipe while it is being generated. */
+export const STREAM_ACCEPT = 'text/event-stream, application/json';
+
+export function isEventStream(response: Response): boolean {
+  return (response.headers.get('Content-Type') || '').includes('text/event-stream');
+}
+
+/**
+ * Reads a recipe Server-Sent Events response, calling `onPartial` for every "partial" event and
+ * resolving with the validated recipe from the "done" event. An "error" event rejects.
+ */
+export async function readRecipeStream(
+  response: Response,
+  onPartial: (partial: Partial<Recipe>) => void,
+): Promise<Recipe> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      let data = '';
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (!data) continue;
+
+      const payload = JSON.parse(data);
+      if (event === 'partial') onPartial(payload);
+      else if (event === 'done') return payload;
+      else if (event === 'error') throw new ApiError(payload);
+    }
+
+    if (done) throw new Error('The recipe stream ended unexpectedly.');
+  }
+}
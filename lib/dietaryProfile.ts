@@ -0,0 +1,34 @@
+// lib/dietaryProfile.ts
+// Per-user dietary profile: users/{uid}/settings/dietary in Firestore when signed in, localStorage otherwise.
+import { doc, getDoc, serverTimestamp, setDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import { EMPTY_DIETARY_PROFILE, normalizeDietaryProfile } from './recipe-engine/dietary';
+import type { DietaryProfile } from './recipe-engine/types';
+
+const STORAGE_KEY = 'dietaryProfile';
+
+function profileDoc(uid: string) {
+  return doc(db, 'users', uid, 'settings', 'dietary');
+}
+
+function readLocal(): DietaryProfile {
+  try {
+    return normalizeDietaryProfile(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null'));
+  } catch {
+    return EMPTY_DIETARY_PROFILE;
+  }
+}
+
+/** Signed-in users get their stored profile; before the first save it falls back to this device's. */
+export async function loadDietaryProfile(uid: string | null): Promise<DietaryProfile> {
+  if (!uid) return readLocal();
+  const snapshot = await getDoc(profileDoc(uid));
+  return snapshot.exists() ? normalizeDietaryProfile(snapshot.data()) : readLocal();
+}
+
+export async function saveDietaryProfile(uid: string | null, profile: DietaryProfile): Promise<void> {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  if (uid) {
+    await setDoc(profileDoc(uid), { ...profile, updatedAt: serverTimestamp() });
+  }
+}
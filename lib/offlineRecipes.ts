@@ -0,0 +1,99 @@
+// lib/offlineRecipes.ts
+// Recipes kept on this device for reading offline, and recipe requests waiting for a connection.
+// Shared by the app and the service worker (src/sw.ts), so it must not import Firebase or React.
+import { openDB, type DBSchema } from 'idb';
+import type { Language, Recipe } from './recipe-engine/types';
+
+/** Set on a recipe request to let the service worker queue it when the network is down; the value is its id. */
+export const QUEUE_ID_HEADER = 'X-Queue-Id';
+
+/** Queued requests older than this are dropped unsent; by then the user has likely moved on. */
+export const QUEUE_RETENTION_MINUTES = 24 * 60;
+
+/** How many generated recipes are kept for offline reading; the oldest are dropped first. */
+const MAX_RECENT = 30;
+
+export interface RecipeContext {
+  sourceIngredients: string[];
+  cuisineType: string;
+  language: Language;
+  thumbnail?: string | null;
+}
+
+export interface OfflineRecipe extends RecipeContext {
+  id: string;
+  recipe: Recipe;
+  createdAt: number;
+  /** Finished by the service worker after the request had been queued offline. */
+  queued?: boolean;
+}
+
+/** What the app knew when a request was queued; the service worker adds it to the finished recipe. */
+export interface QueuedRecipe extends RecipeContext {
+  id: string;
+  queuedAt: number;
+  status: 'pending' | 'failed';
+  /** The API's error message once replaying the request has failed. */
+  error?: string;
+}
+
+/** Posted by the service worker to open windows, and by the app to ask for a replay or drop a dismissed request. */
+export type OfflineMessage =
+  | { type: 'queued-recipe-ready'; id: string }
+  | { type: 'queued-recipe-failed'; id: string; error: string }
+  | { type: 'open-recipe'; id: string }
+  | { type: 'replay-queue'; authorization: string | null }
+  | { type: 'discard-queued'; id: string };
+
+interface OfflineDB extends DBSchema {
+  recipes: { key: string; value: OfflineRecipe; indexes: { createdAt: number } };
+  queue: { key: string; value: QueuedRecipe };
+}
+
+let dbPromise: ReturnType<typeof openDB<OfflineDB>> | null = null;
+
+function getDB() {
+  dbPromise ??= openDB<OfflineDB>('todays-recipe-offline', 1, {
+    upgrade(db) {
+      db.createObjectStore('recipes', { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+      db.createObjectStore('queue', { keyPath: 'id' });
+    },
+  });
+  return dbPromise;
+}
+
+export async function rememberRecipe(entry: OfflineRecipe): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction('recipes', 'readwrite');
+  await tx.store.put(entry);
+  const keys = await tx.store.index('createdAt').getAllKeys();
+  for (const key of keys.slice(0, Math.max(keys.length - MAX_RECENT, 0))) await tx.store.delete(key);
+  await tx.done;
+}
+
+/** Newest first. */
+export async function listOfflineRecipes(): Promise<OfflineRecipe[]> {
+  const recipes = await (await getDB()).getAllFromIndex('recipes', 'createdAt');
+  return recipes.reverse();
+}
+
+export async function getOfflineRecipe(id: string): Promise<OfflineRecipe | undefined> {
+  return (await getDB()).get('recipes', id);
+}
+
+export async function saveQueuedRecipe(entry: QueuedRecipe): Promise<void> {
+  await (await getDB()).put('queue', entry);
+}
+
+export async function getQueuedRecipe(id: string): Promise<QueuedRecipe | undefined> {
+  return (await getDB()).get('queue', id);
+}
+
+export async function listQueuedRecipes(): Promise<QueuedRecipe[]> {
+  const entries = await (await getDB()).getAll('queue');
+  return entries.sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+export async function deleteQueuedRecipe(id: string): Promise<void> {
+  await (await getDB()).delete('queue', id);
+}
@@ -0,0 +1,87 @@
+// lib/recipe-engine/auth.ts
+// Optional Firebase ID token check for the API endpoints.
+//   AUTH_REQUIRED=true   reject requests without a valid token (401)
+//   AUTH_VERIFIER=stub   accept "stub:<uid>" tokens instead of calling Firebase (local dev / tests)
+import { RecipeEngineError } from "./errors";
+import type { ApiRequest } from "./http";
+
+export interface TokenVerifier {
+  readonly name: string;
+  /** Resolves with the token's uid or rejects if the token is not valid. */
+  verify(token: string): Promise<{ uid: string }>;
+}
+
+export function createFirebaseVerifier(): TokenVerifier {
+  let verifyIdToken: ((token: string) => Promise<{ uid: string }>) | null = null;
+
+  return {
+    name: "firebase",
+    async verify(token) {
+      if (!verifyIdToken) {
+        // Loaded lazily so deployments without auth never pay for firebase-admin's startup
+        const { getApps, initializeApp } = await import("firebase-admin/app");
+        const { getAuth } = await import("firebase-admin/auth");
+        const app = getApps()[0] ?? initializeApp({
+          projectId: process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID,
+        });
+        verifyIdToken = (idToken) => getAuth(app).verifyIdToken(idToken);
+      }
+      return verifyIdToken(token);
+    },
+  };
+}
+
+/** Accepts tokens of the form "stub:<uid>"; never enable in production. */
+export function createStubVerifier(): TokenVerifier {
+  return {
+    name: "stub",
+    async verify(token) {
+      const match = /^stub:(.+)$/.exec(token);
+      if (!match) throw new Error("Invalid stub token");
+      return { uid: match[1] };
+    },
+  };
+}
+
+let current: TokenVerifier | null = null;
+
+export function getVerifier(): TokenVerifier {
+  current ??= process.env.AUTH_VERIFIER === "stub" ? createStubVerifier() : createFirebaseVerifier();
+  return current;
+}
+
+/** Replaces the verifier AUTH_VERIFIER would pick; tests/helpers.ts installs the stub. null re-reads the env. */
+export function setVerifier(verifier: TokenVerifier | null): void {
+  current = verifier;
+}
+
+export function isAuthRequired(): boolean {
+  return process.env.AUTH_REQUIRED === "true";
+}
+
+function bearerToken(req: ApiRequest): string | undefined {
+  const header = req.headers.authorization;
+  const match = header && /^Bearer\s+(.+)$/i.exec(header.trim());
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Resolves the caller's uid from the Authorization header. A token that is present but
+ * invalid is always rejected; a missing token is only rejected when AUTH_REQUIRED is set.
+ */
+export async function authenticate(req: ApiRequest): Promise<string | undefined> {
+  const token = bearerToken(req);
+  if (!token) {
+    if (isAuthRequired()) {
+      throw new RecipeEngineError(401, "Sign in to use this feature", { code: "unauthenticated" });
+    }
+    return undefined;
+  }
+
+  try {
+    const { uid } = await getVerifier().verify(token);
+    return uid;
+  } catch {
+    throw new RecipeEngineError(401, "Your session has expired. Please sign in again.", { code: "invalid_token" });
+  }
+}
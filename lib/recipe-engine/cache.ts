@@ -0,0 +1,108 @@
+// lib/recipe-engine/cache.ts
+// Cache of generated recipes keyed on the normalized request, so popular ingredient sets cost one model call.
+//   RECIPE_CACHE_STORE=sqlite|memory|off (default sqlite), RECIPE_CACHE_TTL_HOURS (default 24)
+import { createHash } from "node:crypto";
+import { cuisineKey } from "./cuisines";
+import { isEmptyDietaryProfile } from "./dietary";
+import { getDatabase } from "./sqlite";
+import type { Recipe, RecipeRequest } from "./types";
+
+export interface RecipeCacheStore {
+  get(key: string, now: number): Promise<Recipe | undefined>;
+  set(key: string, recipe: Recipe, expiresAt: number): Promise<void>;
+}
+
+export function createMemoryCacheStore(): RecipeCacheStore {
+  const entries = new Map<string, { recipe: Recipe; expiresAt: number }>();
+  return {
+    async get(key, now) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.recipe;
+    },
+    async set(key, recipe, expiresAt) {
+      entries.set(key, { recipe, expiresAt });
+    },
+  };
+}
+
+export function createSqliteCacheStore(): RecipeCacheStore {
+  const db = getDatabase();
+  db.exec("CREATE TABLE IF NOT EXISTS recipe_cache (key TEXT PRIMARY KEY, recipe TEXT NOT NULL, expires_at INTEGER NOT NULL)");
+  const select = db.prepare("SELECT recipe FROM recipe_cache WHERE key = ? AND expires_at > ?");
+  const upsert = db.prepare("INSERT OR REPLACE INTO recipe_cache (key, recipe, expires_at) VALUES (?, ?, ?)");
+  const prune = db.prepare("DELETE FROM recipe_cache WHERE expires_at <= ?");
+  return {
+    async get(key, now) {
+      const row = select.get(key, now) as { recipe: string } | undefined;
+      return row ? JSON.parse(row.recipe) : undefined;
+    },
+    async set(key, recipe, expiresAt) {
+      prune.run(Date.now());
+      upsert.run(key, JSON.stringify(recipe), expiresAt);
+    },
+  };
+}
+
+let current: RecipeCacheStore | null | undefined;
+
+/** The env-selected cache store, or null when caching is switched off. */
+export function getRecipeCache(): RecipeCacheStore | null {
+  if (current === undefined) {
+    const kind = process.env.RECIPE_CACHE_STORE || "sqlite";
+    current = kind === "off" ? null : kind === "memory" ? createMemoryCacheStore() : createSqliteCacheStore();
+  }
+  return current;
+}
+
+/** Installs a store in place of RECIPE_CACHE_STORE's choice. Unlike the other setters, null switches caching off. */
+export function setRecipeCache(store: RecipeCacheStore | null): void {
+  current = store;
+}
+
+export function cacheTtlMs(): number {
+  const hours = Number(process.env.RECIPE_CACHE_TTL_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 24) * 60 * 60 * 1000;
+}
+
+/**
+ * Trimmed, lower-cased, de-duplicated and sorted, so "Rice, chicken" and "chicken, rice " share an entry.
+ * Servings are deliberately left out: a cached recipe is rescaled to the requested servings instead.
+ */
+export function recipeCacheKey({
+  ingredients,
+  cuisine,
+  language,
+  candidate,
+  dietary,
+}: Pick<RecipeRequest, "ingredients" | "cuisine" | "language" | "candidate" | "dietary">): string {
+  const normalized = [...new Set(ingredients.map((i) => i.trim().toLowerCase().replace(/\s+/g, " ")).filter(Boolean))].sort();
+  const parts: unknown[] = [normalized, cuisineKey(cuisine), language];
+  // An expanded suggestion is a different dish from the free-form recipe for the same ingredients
+  if (candidate) parts.push(candidate.recipeName.trim().toLowerCase());
+  // Likewise a recipe written for a dietary profile; keys without one are unchanged
+  if (!isEmptyDietaryProfile(dietary)) parts.push([...dietary!.restrictions].sort(), [...dietary!.allergens].sort());
+  return createHash("sha256").update(JSON.stringify(parts)).digest("hex");
+}
+
+/** Cache problems (e.g. a read-only filesystem on a serverless host) never fail the request. */
+export async function readCachedRecipe(key: string): Promise<Recipe | undefined> {
+  try {
+    return await getRecipeCache()?.get(key, Date.now());
+  } catch (err) {
+    console.warn("recipe cache read failed:", err);
+    return undefined;
+  }
+}
+
+export async function writeCachedRecipe(key: string, recipe: Recipe): Promise<void> {
+  try {
+    await getRecipeCache()?.set(key, recipe, Date.now() + cacheTtlMs());
+  } catch (err) {
+    console.warn("recipe cache write failed:", err);
+  }
+}
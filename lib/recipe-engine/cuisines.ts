@@ -0,0 +1,122 @@
+// lib/recipe-engine/cuisines.ts
+// The cuisines the app covers, as region → country → dish category. Shared by the selector in
+// App.tsx and the server, which only ever puts these names into a prompt.
+import type { CuisineSelection, Language } from "./types";
+
+interface TaxonomyEntry {
+  id: string;
+  label: Record<Language, string>;
+  /** English name used in prompts. */
+  promptName: string;
+}
+
+export interface CuisineRegion extends TaxonomyEntry {
+  countries: TaxonomyEntry[];
+  categories: TaxonomyEntry[];
+}
+
+const entry = (id: string, en: string, ar: string, promptName = en): TaxonomyEntry => ({ id, label: { en, ar }, promptName });
+
+export const CUISINE_TAXONOMY: CuisineRegion[] = [
+  {
+    ...entry("middle-eastern", "Middle Eastern", "شرق أوسطي"),
+    countries: [
+      entry("syrian", "Syrian", "سوري"),
+      entry("lebanese", "Lebanese", "لبناني"),
+      entry("iraqi", "Iraqi", "عراقي"),
+      entry("palestinian", "Palestinian", "فلسطيني"),
+      entry("egyptian", "Egyptian", "مصري"),
+      entry("jordanian", "Jordanian", "أردني"),
+      entry("saudi", "Saudi", "سعودي"),
+      entry("yemeni", "Yemeni", "يمني"),
+      entry("gulf", "Gulf", "خليجي"),
+    ],
+    categories: [
+      entry("mezze", "Mezze", "مقبلات", "mezze"),
+      entry("main", "Main course", "طبق رئيسي", "main course"),
+      entry("dessert", "Dessert", "حلويات", "dessert"),
+      entry("breakfast", "Breakfast", "فطور", "breakfast"),
+      entry("sandwich", "Sandwich", "سندويش", "sandwich"),
+    ],
+  },
+  {
+    ...entry("western-fast-food", "Western Fast Food", "غربي سريع"),
+    countries: [entry("american", "American", "أمريكي"), entry("italian", "Italian", "إيطالي")],
+    categories: [
+      entry("burger", "Burgers", "برغر", "burger"),
+      entry("pizza", "Pizza", "بيتزا", "pizza"),
+      entry("crispy-chicken", "Crispy chicken", "دجاج مقرمش", "crispy chicken"),
+      entry("pasta", "Pasta", "معكرونة", "pasta"),
+      entry("sandwich", "Sandwich", "سندويش", "sandwich"),
+    ],
+  },
+];
+
+export const DEFAULT_CUISINE: CuisineSelection = { region: "middle-eastern" };
+
+export function findRegion(id: string): CuisineRegion | undefined {
+  return CUISINE_TAXONOMY.find((region) => region.id === id);
+}
+
+function isLabelOf(entry: TaxonomyEntry, text: string): boolean {
+  const normalized = text.trim().toLowerCase();
+  return [entry.id, entry.promptName.toLowerCase(), entry.label.en.toLowerCase(), entry.label.ar].includes(normalized);
+}
+
+/**
+ * Reads a selection from a request: `{ region, country?, category? }` with taxonomy ids, or a
+ * plain region or country name as older clients send in `cuisineType` ("Middle Eastern", "لبناني").
+ * Returns undefined for anything outside the taxonomy.
+ */
+export function parseCuisineSelection(value: unknown): CuisineSelection | undefined {
+  if (typeof value === "string") {
+    for (const region of CUISINE_TAXONOMY) {
+      if (isLabelOf(region, value)) return { region: region.id };
+      const country = region.countries.find((c) => isLabelOf(c, value));
+      if (country) return { region: region.id, country: country.id };
+    }
+    return undefined;
+  }
+  if (typeof value !== "object" || value === null) return undefined;
+
+  const { region: regionId, country, category } = value as Record<string, unknown>;
+  const region = typeof regionId === "string" ? findRegion(regionId) : undefined;
+  if (!region) return undefined;
+  const selection: CuisineSelection = { region: region.id };
+  if (country !== undefined && country !== null && country !== "") {
+    if (!region.countries.some((c) => c.id === country)) return undefined;
+    selection.country = country as string;
+  }
+  if (category !== undefined && category !== null && category !== "") {
+    if (!region.categories.some((c) => c.id === category)) return undefined;
+    selection.category = category as string;
+  }
+  return selection;
+}
+
+function parts(selection: CuisineSelection) {
+  const region = findRegion(selection.region)!;
+  return {
+    region,
+    country: region.countries.find((c) => c.id === selection.country),
+    category: region.categories.find((c) => c.id === selection.category),
+  };
+}
+
+/** English description for prompts, e.g. "Lebanese (Middle Eastern) mezze". */
+export function cuisinePromptName(selection: CuisineSelection): string {
+  const { region, country, category } = parts(selection);
+  const cuisine = country ? `${country.promptName} (${region.promptName})` : region.promptName;
+  return category ? `${cuisine} ${category.promptName}` : cuisine;
+}
+
+/** Display label in the UI language, e.g. "لبناني · مقبلات". */
+export function cuisineLabel(selection: CuisineSelection, language: Language): string {
+  const { region, country, category } = parts(selection);
+  return [country?.label[language] ?? region.label[language], category?.label[language]].filter(Boolean).join(" · ");
+}
+
+/** Stable key for caching: "middle-eastern/lebanese/mezze". */
+export function cuisineKey(selection: CuisineSelection): string {
+  return [selection.region, selection.country ?? "", selection.category ?? ""].join("/");
+}
@@ -0,0 +1,187 @@
+// lib/recipe-engine/dietary.ts
+// Dietary restrictions and allergens: what the user can choose, and a keyword check of the model's
+// ingredient list against them. Client-safe, so the app shows the same warnings the server computes.
+import { escapeRegExp, keywordPattern } from "./keywords";
+import type { Allergen, DietaryProfile, DietaryRestriction, DietaryWarning, Recipe } from "./types";
+
+export const DIETARY_RESTRICTIONS: DietaryRestriction[] = [
+  "vegetarian",
+  "vegan",
+  "gluten-free",
+  "nut-free",
+  "dairy-free",
+  "diabetic-friendly",
+  "low-sodium",
+];
+
+export const ALLERGENS: Allergen[] = ["nuts", "peanuts", "dairy", "eggs", "gluten", "fish", "shellfish", "sesame", "soy"];
+
+export const EMPTY_DIETARY_PROFILE: DietaryProfile = { restrictions: [], allergens: [] };
+
+/** Groups the dictionary can recognise: every allergen plus what the restrictions (and halal) exclude. */
+export type IngredientGroup = Allergen | "meat" | "poultry" | "pork" | "alcohol" | "honey" | "sugar" | "salt";
+
+/** English and Arabic keywords per group, matched as whole words (see keywordPattern). */
+const GROUP_KEYWORDS: Record<IngredientGroup, string[]> = {
+  meat: ["meat", "beef", "lamb", "mutton", "veal", "goat", "steak", "kofta", "sausage", "salami", "pepperoni", "لحم", "لحمة", "كفتة", "غنم", "خروف", "عجل", "بقر", "ستيك", "سجق", "مقانق"],
+  poultry: ["chicken", "turkey", "duck", "quail", "poultry", "دجاج", "فروج", "ديك رومي", "حبش", "بط", "سمان"],
+  fish: ["fish", "salmon", "tuna", "cod", "sardine", "anchovy", "hake", "tilapia", "mackerel", "سمك", "سلمون", "تونة", "سردين", "أنشوجة", "هامور", "بلطي"],
+  shellfish: ["shrimp", "prawn", "crab", "lobster", "mussel", "clam", "oyster", "squid", "calamari", "جمبري", "روبيان", "قريدس", "سلطعون", "كابوريا", "استاكوزا", "محار", "حبار", "كاليماري"],
+  dairy: ["milk", "cheese", "butter", "cream", "yogurt", "yoghurt", "labneh", "ghee", "halloumi", "feta", "mozzarella", "parmesan", "cheddar", "akkawi", "whey", "حليب", "لبن", "لبنة", "جبن", "جبنة", "زبدة", "قشطة", "كريمة", "سمن", "حلوم", "عكاوي", "موزاريلا", "بارميزان", "شيدر", "قشقوان", "زبادي"],
+  eggs: ["egg", "mayonnaise", "meringue", "بيض", "بيضة", "مايونيز"],
+  gluten: ["wheat", "flour", "bread", "breadcrumbs", "bulgur", "freekeh", "semolina", "couscous", "pasta", "spaghetti", "noodle", "vermicelli", "barley", "rye", "pita", "bun", "dough", "phyllo", "filo", "soy sauce", "طحين", "دقيق", "خبز", "برغل", "فريكة", "سميد", "كسكس", "معكرونة", "مكرونة", "شعيرية", "شعير", "عجين", "عجينة", "كنافة", "صمون", "بقسماط", "صلصة الصويا"],
+  nuts: ["nut", "almond", "walnut", "pistachio", "cashew", "hazelnut", "pecan", "pine nut", "macadamia", "praline", "مكسرات", "لوز", "جوز", "فستق حلبي", "كاجو", "بندق", "صنوبر", "بيكان"],
+  peanuts: ["peanut", "peanut butter", "فول سوداني", "فستق عبيد"],
+  sesame: ["sesame", "tahini", "halva", "سمسم", "طحينة", "طحينية", "حلاوة"],
+  soy: ["soy", "soya", "tofu", "edamame", "soy sauce", "صويا", "توفو", "صلصة الصويا"],
+  pork: ["pork", "bacon", "ham", "lard", "prosciutto", "pancetta", "chorizo", "خنزير", "بيكون", "لحم مقدد"],
+  alcohol: ["wine", "beer", "rum", "brandy", "vodka", "whiskey", "liqueur", "sake", "mirin", "cognac", "نبيذ", "خمر", "بيرة", "كحول"],
+  honey: ["honey", "عسل"],
+  sugar: ["sugar", "syrup", "molasses", "jam", "honey", "condensed milk", "سكر", "شراب", "شيرة", "دبس", "مربى", "عسل", "حليب مكثف"],
+  salt: ["salt", "stock cube", "bouillon", "soy sauce", "pickle", "ملح", "مكعب مرق", "مرقة مكعبات", "صلصة الصويا", "مخلل"],
+};
+
+/**
+ * Names that contain a keyword but are not in the group (coconut is not a tree nut, cream of
+ * tartar is not dairy). Only the excluded name is cut out before the keywords are checked, so
+ * "coconut and almond flakes" still has nuts; each entry is therefore the whole compound.
+ */
+const GROUP_EXCLUSIONS: Partial<Record<IngredientGroup, string[]>> = {
+  nuts: ["coconut", "nutmeg", "butternut", "جوز الهند", "جوزة الطيب"],
+  alcohol: ["wine vinegar", "خل النبيذ", "خل نبيذ"],
+  dairy: [
+    "peanut butter", "cocoa butter", "butter bean", "cream of tartar", "coconut milk", "coconut cream", "almond milk", "oat milk", "soy milk",
+    "حليب جوز الهند", "زبدة الفول السوداني", "زبدة الكاكاو", "كريمة الطرطير", "كريم تارتار",
+  ],
+};
+
+/**
+ * Words that name a group in a free-from marker: "dairy-free", "nut free", "خالي من الألبان".
+ * A marker only clears the group it names. "fat-free", "sugar-free" and "salt-free" clear nothing:
+ * they say nothing about allergens, and such products still hold sweeteners or sodium.
+ */
+const FREE_FROM_NAMES: Partial<Record<IngredientGroup, string[]>> = {
+  dairy: ["dairy", "milk", "lactose", "ألبان", "حليب", "لاكتوز"],
+  gluten: ["gluten", "wheat", "جلوتين", "غلوتين", "قمح"],
+  nuts: ["nut", "tree nut", "مكسرات"],
+  peanuts: ["peanut", "فول سوداني"],
+  eggs: ["egg", "بيض"],
+  soy: ["soy", "soya", "صويا"],
+  sesame: ["sesame", "سمسم"],
+  fish: ["fish", "سمك"],
+  shellfish: ["shellfish", "قشريات"],
+  meat: ["meat", "لحم", "لحوم"],
+  alcohol: ["alcohol", "كحول"],
+};
+
+/** "vegan" and "plant-based" clear the animal groups only; "vegan chocolate with hazelnuts" still has nuts. */
+const PLANT_BASED_MARKERS = ["vegan", "plant-based", "نباتي"].map(keywordPattern);
+const ANIMAL_GROUPS: IngredientGroup[] = ["meat", "poultry", "pork", "fish", "shellfish", "dairy", "eggs", "honey"];
+
+/** A marker modifies the words around it up to the next "with", "and", comma and the like. */
+const PHRASE_SEPARATOR = /\s+(?:with|and|or|plus|مع|أو)\s+|\s+و(?=\p{L})|[,،;&+/]/iu;
+
+const RESTRICTION_GROUPS: Record<DietaryRestriction, IngredientGroup[]> = {
+  vegetarian: ["meat", "poultry", "pork", "fish", "shellfish"],
+  vegan: ["meat", "poultry", "pork", "fish", "shellfish", "dairy", "eggs", "honey"],
+  "gluten-free": ["gluten"],
+  "nut-free": ["nuts", "peanuts"],
+  "dairy-free": ["dairy"],
+  "diabetic-friendly": ["sugar"],
+  "low-sodium": ["salt"],
+};
+
+/** Every recipe is assumed halal, whatever the user selected. */
+const HALAL_GROUPS: IngredientGroup[] = ["pork", "alcohol"];
+
+const GROUP_PATTERNS = Object.fromEntries(
+  Object.entries(GROUP_KEYWORDS).map(([group, keywords]) => [group, keywords.map(keywordPattern)]),
+) as Record<IngredientGroup, RegExp[]>;
+
+const EXCLUSION_PATTERNS = Object.fromEntries(
+  Object.entries(GROUP_EXCLUSIONS).map(([group, names]) => [
+    group,
+    names.map((name) => new RegExp(keywordPattern(name).source, `${keywordPattern(name).flags}g`)),
+  ]),
+) as Partial<Record<IngredientGroup, RegExp[]>>;
+
+// "gluten-free", "dairy free"; a leading "free" as in "free-range eggs" is not a marker
+const FREE_FROM_PATTERNS = Object.fromEntries(
+  Object.entries(FREE_FROM_NAMES).map(([group, names]) => {
+    const alternatives = names.map(escapeRegExp).join("|");
+    return [
+      group,
+      [
+        new RegExp(`(?<!\\p{L})(?:${alternatives})s?[-\\s]free(?!\\p{L})`, "iu"),
+        new RegExp(`(?<!\\p{L})خال(?:ي|ية)?\\s+من\\s+(?:ال)?(?:${alternatives})(?!\\p{L})`, "u"),
+      ],
+    ];
+  }),
+) as Partial<Record<IngredientGroup, RegExp[]>>;
+
+/** Whether one phrase of a name is marked as free of `group`, e.g. "dairy-free cheese" for dairy. */
+function isFreeFrom(phrase: string, group: IngredientGroup): boolean {
+  if (FREE_FROM_PATTERNS[group]?.some((pattern) => pattern.test(phrase))) return true;
+  return ANIMAL_GROUPS.includes(group) && PLANT_BASED_MARKERS.some((pattern) => pattern.test(phrase));
+}
+
+/**
+ * Whether a name, split into phrases, belongs to `group`: phrases marked free of the group are
+ * skipped, excluded names ("coconut" for nuts) are cut out of the rest, and the group's keywords
+ * are looked for in what is left.
+ */
+function inGroup(phrases: string[], group: IngredientGroup): boolean {
+  const text = phrases
+    .filter((phrase) => !isFreeFrom(phrase, group))
+    .map((phrase) => (EXCLUSION_PATTERNS[group] ?? []).reduce((rest, pattern) => rest.replace(pattern, " "), phrase))
+    .join(" , ");
+  return GROUP_PATTERNS[group].some((pattern) => pattern.test(text));
+}
+
+/** The groups an ingredient name belongs to, e.g. "toasted pine nuts" → ["nuts"]. */
+export function ingredientGroups(name: string): IngredientGroup[] {
+  const phrases = name.toLowerCase().split(PHRASE_SEPARATOR);
+  return (Object.keys(GROUP_PATTERNS) as IngredientGroup[]).filter((group) => inGroup(phrases, group));
+}
+
+/** Keeps only known restrictions and allergens, so any request body can be passed in. */
+export function normalizeDietaryProfile(value: unknown): DietaryProfile {
+  const input = (typeof value === "object" && value !== null ? value : {}) as Record<string, unknown>;
+  const pick = <T extends string>(list: unknown, allowed: T[]): T[] =>
+    Array.isArray(list) ? allowed.filter((item) => list.includes(item)) : [];
+  return { restrictions: pick(input.restrictions, DIETARY_RESTRICTIONS), allergens: pick(input.allergens, ALLERGENS) };
+}
+
+export function isEmptyDietaryProfile(profile: DietaryProfile | undefined): boolean {
+  return !profile || (profile.restrictions.length === 0 && profile.allergens.length === 0);
+}
+
+/**
+ * Checks the returned ingredient list against the profile (and halal, always).
+ * One warning per ingredient and rule; the model's own wording is kept in `ingredient`.
+ */
+export function checkDietaryProfile(recipe: Pick<Recipe, "ingredients">, profile: DietaryProfile = EMPTY_DIETARY_PROFILE): DietaryWarning[] {
+  const rules: { rule: DietaryWarning["rule"]; groups: IngredientGroup[] }[] = [
+    { rule: "halal", groups: HALAL_GROUPS },
+    ...profile.restrictions.map((restriction) => ({ rule: restriction, groups: RESTRICTION_GROUPS[restriction] })),
+    ...profile.allergens.map((allergen) => ({ rule: allergen, groups: [allergen] as IngredientGroup[] })),
+  ];
+
+  const warnings: DietaryWarning[] = [];
+  for (const ingredient of recipe.ingredients) {
+    const groups = ingredientGroups(ingredient.name);
+    if (!groups.length) continue;
+    for (const { rule, groups: forbidden } of rules) {
+      const group = forbidden.find((g) => groups.includes(g));
+      if (group) warnings.push({ ingredient: ingredient.name, rule, group });
+    }
+  }
+  return warnings;
+}
+
+/** Returns the recipe with `dietaryWarnings` set (or removed when there are none). */
+export function withDietaryWarnings<T extends Recipe>(recipe: T, profile?: DietaryProfile): T {
+  const { dietaryWarnings: _, ...rest } = recipe;
+  const warnings = checkDietaryProfile(recipe, profile);
+  return (warnings.length ? { ...rest, dietaryWarnings: warnings } : rest) as T;
+}
@@ -0,0 +1,51 @@
+// lib/recipe-engine/diff.ts
+// Client-safe summary of what a refinement changed, so users can see the edit instead of re-reading the recipe.
+import { formatIngredient } from "./ingredients";
+import type { Language, Recipe, RecipeChange } from "./types";
+
+const DIFFED_FIELDS = ["recipeName", "prepTime", "cookTime", "difficulty", "chefTips"] as const;
+
+function ingredientKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Lists added, removed and changed ingredients and steps plus changed headline fields.
+ * Ingredients are matched by name; steps by their exact text, so a reworded step shows as removed + added.
+ */
+export function diffRecipes(before: Recipe, after: Recipe, language: Language): RecipeChange[] {
+  const changes: RecipeChange[] = [];
+
+  for (const field of DIFFED_FIELDS) {
+    const was = before[field] ?? "";
+    const now = after[field] ?? "";
+    if (was !== now) changes.push({ kind: "changed", section: "field", field, before: was, after: now });
+  }
+
+  const previous = new Map(before.ingredients.map((ing) => [ingredientKey(ing.name), ing]));
+  const current = new Set<string>();
+  for (const ing of after.ingredients) {
+    const key = ingredientKey(ing.name);
+    current.add(key);
+    const old = previous.get(key);
+    const text = formatIngredient(ing, language);
+    if (!old) changes.push({ kind: "added", section: "ingredient", after: text });
+    else if (formatIngredient(old, language) !== text) {
+      changes.push({ kind: "changed", section: "ingredient", before: formatIngredient(old, language), after: text });
+    }
+  }
+  for (const [key, ing] of previous) {
+    if (!current.has(key)) changes.push({ kind: "removed", section: "ingredient", before: formatIngredient(ing, language) });
+  }
+
+  const oldSteps = new Set(before.instructions);
+  const newSteps = new Set(after.instructions);
+  for (const step of after.instructions) {
+    if (!oldSteps.has(step)) changes.push({ kind: "added", section: "step", after: step });
+  }
+  for (const step of before.instructions) {
+    if (!newSteps.has(step)) changes.push({ kind: "removed", section: "step", before: step });
+  }
+
+  return changes;
+}
@@ -0,0 +1,222 @@
+// lib/recipe-engine/endpoints.ts
+import { readCachedRecipe, recipeCacheKey, writeCachedRecipe } from "./cache";
+import {
+  analyzeImage,
+  detectIngredients,
+  generateRecipe,
+  refineRecipe,
+  streamImageRecipe,
+  streamRecipe,
+  suggestRecipes,
+  type RecipeStreamEvent,
+} from "./engine";
+import { normalizeDietaryProfile, withDietaryWarnings } from "./dietary";
+import { RecipeEngineError } from "./errors";
+import { prepareImageForModel } from "./image";
+import { resolveRequestedCuisine } from "./policy";
+import {
+  MAX_INGREDIENT_LENGTH,
+  MAX_INGREDIENTS,
+  MAX_INSTRUCTION_LENGTH,
+  looksLikeInstruction,
+  sanitizeIngredients,
+  sanitizeText,
+} from "./sanitize";
+import { consumeQuota, peekQuota } from "./rate-limit";
+import { DEFAULT_SERVINGS, MAX_SERVINGS } from "./prompts";
+import { CANDIDATE_SCHEMA } from "./schema";
+import { scaleRecipe } from "./scaling";
+import { eventStreamResponse, wantsEventStream, type Endpoint } from "./http";
+import type { ImageRecipeRequest, Language, Recipe, RecipeCandidate } from "./types";
+import { checkSchema, validateRecipe } from "./validation";
+
+function toLanguage(value: unknown): Language {
+  return value === "ar" ? "ar" : "en";
+}
+
+function toServings(value: unknown): number {
+  const servings = Math.round(Number(value));
+  if (!Number.isFinite(servings) || servings < 1) return DEFAULT_SERVINGS;
+  return Math.min(servings, MAX_SERVINGS);
+}
+
+function parseJsonField(value: string | undefined): unknown {
+  try {
+    return value ? JSON.parse(value) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Ingredients as they may appear in a prompt: sanitized, capped in number and length, and without
+ * entries that read as instructions to the model (those are dropped and logged).
+ */
+function toIngredients(value: unknown): string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new RecipeEngineError(400, "ingredients array is required");
+  }
+  if (value.length > MAX_INGREDIENTS) {
+    throw new RecipeEngineError(400, `at most ${MAX_INGREDIENTS} ingredients are allowed`);
+  }
+  const { ingredients, dropped } = sanitizeIngredients(value);
+  if (dropped.length) console.warn("Dropped instruction-like ingredients:", dropped);
+  const tooLong = ingredients.filter((ingredient) => ingredient.length > MAX_INGREDIENT_LENGTH);
+  if (tooLong.length) {
+    throw new RecipeEngineError(400, `ingredients must be at most ${MAX_INGREDIENT_LENGTH} characters each`, {
+      details: { ingredients: tooLong },
+    });
+  }
+  if (!ingredients.length) {
+    throw new RecipeEngineError(400, "no usable ingredients", { code: "invalid_ingredients" });
+  }
+  return ingredients;
+}
+
+/** The suggestion the user picked, echoed back by the client; absent for free-form requests. */
+function toCandidate(value: unknown): RecipeCandidate | undefined {
+  if (value === undefined || value === null) return undefined;
+  const issues: string[] = [];
+  const checked = checkSchema(CANDIDATE_SCHEMA, value, "candidate", issues) as RecipeCandidate;
+  if (issues.length) {
+    throw new RecipeEngineError(400, "candidate is invalid", { details: { issues } });
+  }
+  // Every field goes into the prompt, so it gets the same treatment as typed ingredients
+  const candidate = Object.fromEntries(
+    Object.entries(checked).map(([key, text]) => [key, sanitizeText(text).slice(0, MAX_INSTRUCTION_LENGTH)]),
+  ) as unknown as RecipeCandidate;
+  if (Object.values(candidate).some(looksLikeInstruction)) {
+    throw new RecipeEngineError(400, "candidate is invalid", { details: { issues: ["candidate: contains instructions"] } });
+  }
+  return candidate;
+}
+
+/** Maps engine events to SSE events, running `onDone` (e.g. a cache write) before the final one. */
+async function* toSse(events: AsyncIterable<RecipeStreamEvent>, onDone?: (recipe: Recipe) => Promise<void>) {
+  for await (const item of events) {
+    if (item.type === "done" && onDone) await onDone(item.recipe);
+    yield { event: item.type, data: item.recipe };
+  }
+}
+
+export const generateRecipeEndpoint: Endpoint = async (req) => {
+  const body = (await req.json()) as Record<string, unknown> | null;
+  const ingredients = toIngredients(body?.ingredients);
+
+  // Only taxonomy cuisines reach the prompt; anything else gets a localized refusal (policy.ts)
+  const language = toLanguage(body?.language);
+  const request = {
+    ingredients,
+    cuisine: resolveRequestedCuisine(body?.cuisine ?? body?.cuisineType, language),
+    language,
+    servings: toServings(body?.servings),
+    candidate: toCandidate(body?.candidate),
+    dietary: normalizeDietaryProfile(body?.dietary),
+  };
+
+  // `mode: "suggest"` returns short candidates; the client sends the chosen one back as `candidate`
+  if (body?.mode === "suggest") {
+    const quotaHeaders = await consumeQuota(req);
+    return { status: 200, headers: quotaHeaders, body: { candidates: await suggestRecipes(request) } };
+  }
+
+  // `regenerate: true` from the client skips the cache and replaces the stored entry
+  const regenerate = body?.regenerate === true;
+  const cacheKey = recipeCacheKey(request);
+
+  if (!regenerate) {
+    const cached = await readCachedRecipe(cacheKey);
+    if (cached) {
+      // Cache hits never reach the model, so they do not count against the caller's quota; the
+      // current count is still sent so the app's remaining-quota display stays accurate
+      const headers = { ...(await peekQuota(req)), "X-Cache": "HIT" };
+      return { status: 200, headers, body: withDietaryWarnings(scaleRecipe(cached, request.servings), request.dietary) };
+    }
+  }
+
+  const quotaHeaders = { ...(await consumeQuota(req)), "X-Cache": regenerate ? "BYPASS" : "MISS" };
+  if (wantsEventStream(req)) {
+    const events = toSse(streamRecipe(request), (recipe) => writeCachedRecipe(cacheKey, recipe));
+    return eventStreamResponse("generate-recipe", events, quotaHeaders);
+  }
+
+  const recipe = await generateRecipe(request);
+  await writeCachedRecipe(cacheKey, recipe);
+  return { status: 200, headers: quotaHeaders, body: recipe };
+};
+
+export const analyzeImageEndpoint: Endpoint = async (req) => {
+  const { images, fields } = await req.multipart();
+  if (!images.length) {
+    throw new RecipeEngineError(400, "No image uploaded");
+  }
+  // Refuse an off-policy cuisine or an unreadable upload before it costs the caller a request
+  const language = toLanguage(fields.language);
+  const cuisine = resolveRequestedCuisine(parseJsonField(fields.cuisine) ?? fields.cuisineType, language);
+  const prepared = await Promise.all(images.map((image) => prepareImageForModel(image.buffer)));
+  const quotaHeaders = await consumeQuota(req);
+
+  const request: ImageRecipeRequest = {
+    images: prepared,
+    // "dish": the photo is a finished plate to identify; otherwise it shows ingredients
+    mode: fields.mode === "dish" ? "dish" : "ingredients",
+    cuisine,
+    language,
+    servings: toServings(fields.servings),
+    // Multipart fields are strings, so the profile arrives JSON-encoded
+    dietary: normalizeDietaryProfile(parseJsonField(fields.dietary)),
+  };
+  if (wantsEventStream(req)) {
+    return eventStreamResponse("analyze-image", toSse(streamImageRecipe(request)), quotaHeaders);
+  }
+
+  const recipe = await analyzeImage(request);
+  return { status: 200, headers: quotaHeaders, body: recipe };
+};
+
+/**
+ * First half of the review flow: the ingredients in the photos with confidence scores, and no
+ * recipe. The client sends the list the user confirmed to generate-recipe.
+ */
+export const detectIngredientsEndpoint: Endpoint = async (req) => {
+  const { images, fields } = await req.multipart();
+  if (!images.length) {
+    throw new RecipeEngineError(400, "No image uploaded");
+  }
+  // A 415 for an unreadable upload should not cost the caller a request
+  const prepared = await Promise.all(images.map((image) => prepareImageForModel(image.buffer)));
+  const quotaHeaders = await consumeQuota(req);
+
+  const ingredients = await detectIngredients({ images: prepared, language: toLanguage(fields.language) });
+  return { status: 200, headers: quotaHeaders, body: { ingredients } };
+};
+
+export const refineRecipeEndpoint: Endpoint = async (req) => {
+  const body = (await req.json()) as Record<string, unknown> | null;
+  const instruction = typeof body?.instruction === "string" ? sanitizeText(body.instruction) : "";
+  if (!instruction) {
+    throw new RecipeEngineError(400, "instruction is required");
+  }
+  if (instruction.length > MAX_INSTRUCTION_LENGTH) {
+    throw new RecipeEngineError(400, `instruction must be at most ${MAX_INSTRUCTION_LENGTH} characters`);
+  }
+  // A refinement is an instruction about the recipe; one about the model's rules or format is refused
+  if (looksLikeInstruction(instruction)) {
+    throw new RecipeEngineError(400, "instruction can only describe changes to the recipe", { code: "instruction_rejected" });
+  }
+  const current = validateRecipe(body?.recipe);
+  if (current.issues.length) {
+    throw new RecipeEngineError(400, "recipe is invalid", { details: { issues: current.issues } });
+  }
+  const quotaHeaders = await consumeQuota(req);
+
+  // Warnings are recomputed for the revised recipe, so the old ones are not sent to the model
+  const { dietaryWarnings: _, ...recipe } = current.value!;
+  const result = await refineRecipe({
+    recipe,
+    instruction,
+    language: toLanguage(body?.language),
+    dietary: normalizeDietaryProfile(body?.dietary),
+  });
+  return { status: 200, headers: quotaHeaders, body: result };
+};
@@ -0,0 +1,183 @@
+// lib/recipe-engine/engine.ts
+import { RecipeEngineError } from "./errors";
+import { parsePartialJson } from "./partial-json";
+import { withDietaryWarnings } from "./dietary";
+import { diffRecipes } from "./diff";
+import { mergeIngredientNames } from "./ingredients";
+import { withNutrition } from "./nutrition";
+import { classifyCuisine, cuisineRefusal, filterCandidates, verdictCuisine } from "./policy";
+import {
+  buildDetectionPrompt,
+  buildDishPrompt,
+  buildImagePrompt,
+  buildPolicyRetryPrompt,
+  buildRecipePrompt,
+  buildRefinePrompt,
+  buildRepairPrompt,
+  buildSuggestionsPrompt,
+} from "./prompts";
+import { getProvider, type LlmProvider, type LlmRequest } from "./providers";
+import type {
+  DetectedIngredient,
+  DetectionRequest,
+  DietaryProfile,
+  ImageRecipeRequest,
+  Recipe,
+  RecipeCandidate,
+  RecipeRequest,
+  RefineRequest,
+  RefineResult,
+} from "./types";
+import { validateDetectionJson, validateRecipeJson, validateSuggestionsJson, type ValidationResult } from "./validation";
+
+export type RecipeStreamEvent =
+  | { type: "partial"; recipe: Partial<Recipe> }
+  | { type: "done"; recipe: Recipe };
+
+type Validator<T> = (text: string) => ValidationResult<T>;
+
+/** The single re-prompt after invalid output; a second failure becomes a 502 with the issues. */
+async function repair<T>(provider: LlmProvider, request: LlmRequest, issues: string[], validate: Validator<T>): Promise<T> {
+  console.warn(`${provider.name} returned invalid ${request.task} output, re-prompting:`, issues);
+  const second = validate(await provider.generateJson({ ...request, prompt: buildRepairPrompt(request.prompt, issues) }));
+  if (!second.issues.length) return second.value!;
+
+  throw new RecipeEngineError(502, "The model returned an incomplete recipe. Please try again.", {
+    code: "invalid_model_output",
+    details: { issues: second.issues },
+  });
+}
+
+/**
+ * Asks the provider for JSON and validates it. Invalid or partial output gets exactly
+ * one re-prompt listing the problems; if that fails too the caller gets a 502 with the issues.
+ */
+async function requestValid<T>(request: LlmRequest, validate: Validator<T>): Promise<T> {
+  const provider = getProvider();
+  const first = validate(await provider.generateJson(request));
+  if (!first.issues.length) return first.value!;
+  return repair(provider, request, first.issues, validate);
+}
+
+/**
+ * The cuisine policy applied to model output: a recipe that is not classified as allowed (a
+ * denied cuisine, or an origin on neither list) gets one re-prompt naming the problem, and if
+ * the model insists the caller gets a localized refusal. A recognized dish is what is on the
+ * plate, so there is nothing to re-prompt for: it is refused.
+ */
+async function enforcePolicy(recipe: Recipe, request: LlmRequest): Promise<Recipe> {
+  const verdict = classifyCuisine(recipe);
+  if (verdict.status === "allowed") return recipe;
+  const cuisine = verdictCuisine(verdict);
+  if (request.task === "dish") throw cuisineRefusal("forbidden", request.language, cuisine);
+
+  console.warn(`${request.task} result classified as ${cuisine?.en ?? `unknown (${recipe.origin})`}, re-prompting`);
+  const retry = await requestValid({ ...request, prompt: buildPolicyRetryPrompt(request.prompt, cuisine?.en) }, validateRecipeJson);
+  const second = classifyCuisine(retry);
+  if (second.status !== "allowed") throw cuisineRefusal("off_policy_result", request.language, verdictCuisine(second));
+  return retry;
+}
+
+async function requestValidRecipe(request: LlmRequest): Promise<Recipe> {
+  return enforcePolicy(await requestValid(request, validateRecipeJson), request);
+}
+
+/**
+ * Streaming variant of requestValidRecipe: yields the recipe fields parsed so far as the model
+ * writes them, then the validated (or repaired) recipe. Providers without streaming yield only "done".
+ */
+async function* streamValidRecipe(request: LlmRequest): AsyncGenerator<RecipeStreamEvent> {
+  const provider = getProvider();
+  if (!provider.streamJson) {
+    yield { type: "done", recipe: await requestValidRecipe(request) };
+    return;
+  }
+
+  let text = "";
+  let lastSent = "";
+  for await (const chunk of provider.streamJson(request)) {
+    text += chunk;
+    const partial = parsePartialJson(text);
+    const serialized = JSON.stringify(partial);
+    if (partial && serialized !== lastSent) {
+      lastSent = serialized;
+      yield { type: "partial", recipe: partial as Partial<Recipe> };
+    }
+  }
+
+  const result = validateRecipeJson(text);
+  const recipe = result.issues.length ? await repair(provider, request, result.issues, validateRecipeJson) : result.value!;
+  // A policy retry is not streamed; its "done" replaces whatever partials the client has shown
+  yield { type: "done", recipe: await enforcePolicy(recipe, request) };
+}
+
+/**
+ * Server-side additions to a validated recipe: nutrition from the local table, the dietary
+ * check (the model is told about the profile, but its ingredient list is verified anyway), and
+ * detected ingredients de-duplicated across photos.
+ */
+function finishRecipe(recipe: Recipe, dietary?: DietaryProfile): Recipe {
+  const finished = withDietaryWarnings(withNutrition(recipe), dietary);
+  return finished.detectedIngredients
+    ? { ...finished, detectedIngredients: mergeIngredientNames(finished.detectedIngredients) }
+    : finished;
+}
+
+async function* finishStreamedRecipe(events: AsyncGenerator<RecipeStreamEvent>, dietary?: DietaryProfile): AsyncGenerator<RecipeStreamEvent> {
+  for await (const event of events) {
+    yield event.type === "done" ? { type: "done", recipe: finishRecipe(event.recipe, dietary) } : event;
+  }
+}
+
+function recipeRequest(request: RecipeRequest): LlmRequest {
+  return { task: "recipe", prompt: buildRecipePrompt(request), language: request.language };
+}
+
+function imageRequest({ images, mode, ...request }: ImageRecipeRequest): LlmRequest {
+  return mode === "dish"
+    ? { task: "dish", prompt: buildDishPrompt(request, images.length), language: request.language, images }
+    : { task: "image", prompt: buildImagePrompt(request, images.length), language: request.language, images };
+}
+
+/**
+ * Suggestion mode: a few short dish ideas, each of which can be expanded via RecipeRequest.candidate.
+ * Ideas outside the allowed cuisines are dropped rather than re-prompted, since the rest are still usable.
+ */
+export async function suggestRecipes(request: Omit<RecipeRequest, "servings" | "candidate">): Promise<RecipeCandidate[]> {
+  const candidates = await requestValid(
+    { task: "suggestions", prompt: buildSuggestionsPrompt(request), language: request.language },
+    validateSuggestionsJson,
+  );
+  return filterCandidates(candidates, request.language);
+}
+
+export async function generateRecipe(request: RecipeRequest): Promise<Recipe> {
+  return finishRecipe(await requestValidRecipe(recipeRequest(request)), request.dietary);
+}
+
+/** Detection only: what is in the photos, with confidence, for the user to confirm before generating. */
+export function detectIngredients({ images, language }: DetectionRequest): Promise<DetectedIngredient[]> {
+  return requestValid(
+    { task: "detect", prompt: buildDetectionPrompt(language, images.length), language, images },
+    validateDetectionJson,
+  );
+}
+
+export async function analyzeImage(request: ImageRecipeRequest): Promise<Recipe> {
+  return finishRecipe(await requestValidRecipe(imageRequest(request)), request.dietary);
+}
+
+/** Applies a free-text change to an existing recipe and reports what changed. */
+export async function refineRecipe(request: RefineRequest): Promise<RefineResult> {
+  const refined = await requestValidRecipe({ task: "refine", prompt: buildRefinePrompt(request), language: request.language });
+  const recipe = finishRecipe(refined, request.dietary);
+  return { recipe, changes: diffRecipes(request.recipe, recipe, request.language) };
+}
+
+export function streamRecipe(request: RecipeRequest): AsyncGenerator<RecipeStreamEvent> {
+  return finishStreamedRecipe(streamValidRecipe(recipeRequest(request)), request.dietary);
+}
+
+export function streamImageRecipe(request: ImageRecipeRequest): AsyncGenerator<RecipeStreamEvent> {
+  return finishStreamedRecipe(streamValidRecipe(imageRequest(request)), request.dietary);
+}
@@ -0,0 +1,58 @@
+// lib/recipe-engine/errors.ts
+
+/** An error that already knows which HTTP status it should be reported with. */
+export class RecipeEngineError extends Error {
+  status: number;
+  /** Machine-readable reason the client can branch on, e.g. "invalid_model_output". */
+  code?: string;
+  details?: unknown;
+  /** Extra response headers, e.g. Retry-After on a 429. */
+  headers?: Record<string, string>;
+
+  constructor(
+    status: number,
+    message: string,
+    extra: { code?: string; details?: unknown; headers?: Record<string, string> } = {},
+  ) {
+    super(message);
+    this.name = "RecipeEngineError";
+    this.status = status;
+    this.code = extra.code;
+    this.details = extra.details;
+    this.headers = extra.headers;
+  }
+}
+
+export interface ErrorDescription {
+  status: number;
+  message: string;
+  code?: string;
+  details?: unknown;
+  headers?: Record<string, string>;
+}
+
+/** Turns SDK / network failures into a message a user can act on. */
+export function describeError(err: unknown): ErrorDescription {
+  if (err instanceof RecipeEngineError) {
+    return { status: err.status, message: err.message, code: err.code, details: err.details, headers: err.headers };
+  }
+
+  const raw = err instanceof Error ? err.message : String(err);
+  let message = raw;
+  try {
+    // Gemini errors often carry a JSON payload as their message
+    const parsed = JSON.parse(raw);
+    const inner = parsed?.error?.message ?? parsed?.message;
+    if (typeof inner === "string") message = inner;
+  } catch {
+    // keep message as raw
+  }
+
+  if (/expired|renew|leaked|API key|INVALID|referer/.test(message)) {
+    message = "API key issue. Check Google AI Studio and the GEMINI_API_KEY environment variable, then redeploy.";
+  } else if (/timed? ?out|took too long|Sandbox/i.test(message)) {
+    message = "Request took too long. Try a smaller image or try again.";
+  }
+
+  return { status: 500, message: message || "Internal server error" };
+}
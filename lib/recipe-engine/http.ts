@@ -0,0 +1,166 @@
+// lib/recipe-engine/http.ts
+// Platform-neutral request/response shapes. Adapters in lib/adapters translate to Express, Vercel and Netlify.
+import busboy from "busboy";
+import { authenticate } from "./auth";
+import { describeError, RecipeEngineError } from "./errors";
+import { MAX_UPLOAD_BYTES } from "./image";
+import { MAX_IMAGES } from "./prompts";
+
+export interface UploadedFile {
+  buffer: Buffer;
+  mimeType: string;
+}
+
+export interface ParsedForm {
+  /** Files sent as "image" or "images", in upload order. */
+  images: UploadedFile[];
+  fields: Record<string, string>;
+}
+
+export interface ApiRequest {
+  method: string;
+  /** Header names are lower-cased by the adapter. */
+  headers: Record<string, string | undefined>;
+  /** Firebase uid of the caller, set by runEndpoint once the ID token has been verified. */
+  uid?: string;
+  /** Client IP as reported by the platform, used for anonymous rate limits. */
+  ip?: string;
+  /** Whether the platform can flush a response incrementally (false on Lambda-style functions). */
+  supportsStreaming: boolean;
+  json(): Promise<unknown>;
+  multipart(): Promise<ParsedForm>;
+}
+
+export interface ApiResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  /** Pre-formatted Server-Sent Events frames, written in order instead of `body`. */
+  stream?: AsyncIterable<string>;
+}
+
+export type Endpoint = (req: ApiRequest) => Promise<ApiResponse>;
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  "Access-Control-Expose-Headers": "Retry-After, X-Cache, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, X-RateLimit-Scope",
+  "Content-Type": "application/json",
+};
+
+export function errorResponse(context: string, err: unknown): ApiResponse {
+  const { status, message, code, details, headers } = describeError(err);
+  if (status >= 500) console.error(`${context} error:`, err);
+  const body: Record<string, unknown> = { error: message };
+  if (code) body.code = code;
+  if (details !== undefined) body.details = details;
+  return { status, headers, body };
+}
+
+/** Applies the behaviour every endpoint shares: CORS preflight, POST-only, authentication, JSON errors. */
+export async function runEndpoint(name: string, endpoint: Endpoint, req: ApiRequest): Promise<ApiResponse> {
+  let response: ApiResponse;
+  if (req.method === "OPTIONS") {
+    response = { status: 204 };
+  } else if (req.method !== "POST") {
+    response = { status: 405, body: { error: "Method not allowed" } };
+  } else {
+    try {
+      const uid = await authenticate(req);
+      response = await endpoint({ ...req, uid });
+    } catch (err) {
+      response = errorResponse(name, err);
+    }
+  }
+  return { ...response, headers: { ...corsHeaders, ...response.headers } };
+}
+
+/** True when the client asked for Server-Sent Events and the platform can deliver them. */
+export function wantsEventStream(req: ApiRequest): boolean {
+  return req.supportsStreaming && (req.headers.accept || "").includes("text/event-stream");
+}
+
+/**
+ * Wraps `{ event, data }` items as an SSE response. Errors raised mid-stream become a final
+ * "error" event carrying the same body a JSON error response would have.
+ */
+export function eventStreamResponse(
+  context: string,
+  events: AsyncIterable<{ event: string; data: unknown }>,
+  headers: Record<string, string> = {},
+): ApiResponse {
+  async function* frames(): AsyncGenerator<string> {
+    try {
+      for await (const { event, data } of events) {
+        yield `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+      }
+    } catch (err) {
+      yield `event: error\ndata: ${JSON.stringify(errorResponse(context, err).body)}\n\n`;
+    }
+  }
+
+  return {
+    status: 200,
+    headers: {
+      ...headers,
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      "X-Accel-Buffering": "no",
+    },
+    stream: frames(),
+  };
+}
+
+export function parseJsonText(text: string): unknown {
+  try {
+    return JSON.parse(text || "{}");
+  } catch {
+    throw new RecipeEngineError(400, "Invalid JSON body");
+  }
+}
+
+/** Reads a multipart/form-data body from a stream (Express, Vercel) or a buffer (Netlify). */
+export function parseMultipart(contentType: string | undefined, input: NodeJS.ReadableStream | Buffer): Promise<ParsedForm> {
+  return new Promise((resolve, reject) => {
+    if (!contentType || !contentType.includes("multipart/form-data")) {
+      reject(new RecipeEngineError(400, "Invalid Content-Type, expected multipart/form-data"));
+      return;
+    }
+
+    const result: ParsedForm = { images: [], fields: {} };
+    const bb = busboy({
+      headers: { "content-type": contentType },
+      limits: { fileSize: MAX_UPLOAD_BYTES, files: MAX_IMAGES },
+    });
+
+    bb.on("file", (name: string, file: NodeJS.ReadableStream, info: { mimeType: string }) => {
+      if (name !== "image" && name !== "images") {
+        file.resume();
+        return;
+      }
+      const chunks: Buffer[] = [];
+      file.on("data", (chunk: Buffer) => chunks.push(chunk));
+      file.on("limit", () => reject(new RecipeEngineError(413, "Image too large. Compress it or use a smaller photo.")));
+      const upload: UploadedFile = { buffer: Buffer.alloc(0), mimeType: info.mimeType || "image/jpeg" };
+      result.images.push(upload);
+      file.on("end", () => {
+        upload.buffer = Buffer.concat(chunks);
+      });
+    });
+
+    bb.on("filesLimit", () => reject(new RecipeEngineError(400, `At most ${MAX_IMAGES} images can be uploaded at once.`)));
+
+    bb.on("field", (name: string, value: string) => {
+      result.fields[name] = value;
+    });
+
+    bb.on("error", reject);
+    bb.on("close", () => resolve(result));
+
+    if (Buffer.isBuffer(input)) {
+      bb.end(input);
+    } else {
+      input.pipe(bb);
+    }
+  });
+}
@@ -0,0 +1,79 @@
+// lib/recipe-engine/image.ts
+// The one image pipeline every deployment runs uploads through: the real format is sniffed from
+// the bytes, HEIC is decoded, EXIF rotation applied, and a resized metadata-free JPEG comes out.
+import decodeHeic from "heic-decode";
+import sharp, { type Sharp } from "sharp";
+import { RecipeEngineError } from "./errors";
+
+export const MAX_UPLOAD_BYTES = 6 * 1024 * 1024; // Netlify caps requests at 6MB, Vercel at ~4.5MB
+const MAX_EDGE = 768; // balance between detail and Gemini latency
+/** Decoded size cap, so a small compressed file cannot expand into a huge bitmap. */
+const MAX_INPUT_PIXELS = 50_000_000;
+
+export type ImageFormat = "jpeg" | "png" | "webp" | "gif" | "avif" | "heic";
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const AVIF_BRANDS = ["avif", "avis"];
+// mif1/msf1 are generic HEIF brands that AVIF files carry too, so AVIF_BRANDS are checked first
+const HEIC_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"];
+
+/** The major brand and the compatible brands of an ISO-BMFF `ftyp` box at the start of `buffer`. */
+function ftypBrands(buffer: Buffer): string[] {
+  const end = Math.min(buffer.readUInt32BE(0), buffer.length);
+  const brands = [buffer.toString("latin1", 8, 12)];
+  for (let offset = 16; offset + 4 <= end; offset += 4) brands.push(buffer.toString("latin1", offset, offset + 4));
+  return brands;
+}
+
+/** Identifies an upload by its first bytes; the Content-Type the client sent is not trusted. */
+export function sniffImageFormat(buffer: Buffer): ImageFormat | undefined {
+  if (buffer.length < 12) return undefined;
+  const ascii = (start: number, end: number) => buffer.toString("latin1", start, end);
+
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return "jpeg";
+  if (buffer.subarray(0, 8).equals(PNG_SIGNATURE)) return "png";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "webp";
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") return "gif";
+  if (ascii(4, 8) === "ftyp") {
+    const brands = ftypBrands(buffer);
+    if (brands.some((brand) => AVIF_BRANDS.includes(brand))) return "avif";
+    if (brands.some((brand) => HEIC_BRANDS.includes(brand))) return "heic";
+  }
+  return undefined;
+}
+
+/**
+ * The prebuilt libvips in sharp reads AVIF but not HEVC-coded HEIC (iPhone photos), so those are
+ * decoded to raw pixels first. libheif applies the container's rotation while decoding.
+ */
+async function openHeic(buffer: Buffer): Promise<Sharp> {
+  const { width, height, data } = await decodeHeic({ buffer });
+  if (width * height > MAX_INPUT_PIXELS) throw new Error("HEIC image is too large");
+  return sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), { raw: { width, height, channels: 4 } });
+}
+
+/**
+ * Validates an upload and re-encodes it so every deployment sends the model the same kind of
+ * image: EXIF orientation applied, at most MAX_EDGE on the long side, JPEG. sharp writes no
+ * EXIF, GPS or other metadata unless asked to, so nothing about the user's device leaves here.
+ */
+export async function prepareImageForModel(buffer: Buffer): Promise<{ data: string; mimeType: string }> {
+  const format = sniffImageFormat(buffer);
+  if (!format) {
+    throw new RecipeEngineError(415, "Unsupported file. Upload a JPEG, PNG, WebP or HEIC photo.", { code: "unsupported_image" });
+  }
+
+  try {
+    const image = format === "heic" ? await openHeic(buffer) : sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS });
+    const resized = await image
+      .rotate()
+      .resize(MAX_EDGE, MAX_EDGE, { fit: "inside", withoutEnlargement: true })
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+    return { data: resized.toString("base64"), mimeType: "image/jpeg" };
+  } catch (err) {
+    console.warn(`Could not decode ${format} upload:`, err);
+    throw new RecipeEngineError(415, "The photo could not be read. Try another one or take it again.", { code: "unreadable_image" });
+  }
+}
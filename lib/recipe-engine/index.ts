@@ -0,0 +1,147 @@
+// lib/recipe-engine/index.ts
+export * from "./types";
+export {
+  DEFAULT_SERVINGS,
+  MAX_CANDIDATES,
+  MAX_IMAGES,
+  MAX_SERVINGS,
+  MIN_CANDIDATES,
+  SYSTEM_INSTRUCTION,
+  buildDetectionPrompt,
+  buildDietaryLine,
+  buildDishPrompt,
+  buildImagePrompt,
+  buildPolicyRetryPrompt,
+  buildRecipePrompt,
+  buildRefinePrompt,
+  buildRepairPrompt,
+  buildSuggestionsPrompt,
+} from "./prompts";
+export {
+  UNIT_ALIASES,
+  canonicalUnit,
+  formatIngredient,
+  formatQuantity,
+  ingredientKey,
+  mergeIngredientNames,
+  normalizeIngredient,
+  parseIngredient,
+  parseQuantity,
+} from "./ingredients";
+export {
+  consumeQuota,
+  createMemoryStore,
+  createSqliteStore,
+  getRateLimitStore,
+  peekQuota,
+  setRateLimitStore,
+  type RateLimitStore,
+} from "./rate-limit";
+export { CANDIDATE_SCHEMA, DETECTION_SCHEMA, RECIPE_SCHEMA, SUGGESTIONS_SCHEMA, schemaForTask } from "./schema";
+export { parseServings, roundQuantity, scaleIngredient, scaleRecipe } from "./scaling";
+export { UNIT_TABLE, convertIngredient, convertRecipe, type UnitSystem } from "./units";
+export {
+  createMemoryCacheStore,
+  createSqliteCacheStore,
+  getRecipeCache,
+  recipeCacheKey,
+  setRecipeCache,
+  type RecipeCacheStore,
+} from "./cache";
+export {
+  authenticate,
+  createFirebaseVerifier,
+  createStubVerifier,
+  getVerifier,
+  isAuthRequired,
+  setVerifier,
+  type TokenVerifier,
+} from "./auth";
+export { RecipeEngineError, describeError, type ErrorDescription } from "./errors";
+export {
+  analyzeImage,
+  detectIngredients,
+  generateRecipe,
+  refineRecipe,
+  streamImageRecipe,
+  streamRecipe,
+  suggestRecipes,
+  type RecipeStreamEvent,
+} from "./engine";
+export { diffRecipes } from "./diff";
+export {
+  ALLERGENS,
+  DIETARY_RESTRICTIONS,
+  EMPTY_DIETARY_PROFILE,
+  checkDietaryProfile,
+  ingredientGroups,
+  isEmptyDietaryProfile,
+  normalizeDietaryProfile,
+  withDietaryWarnings,
+  type IngredientGroup,
+} from "./dietary";
+export {
+  CUISINE_TAXONOMY,
+  DEFAULT_CUISINE,
+  cuisineKey,
+  cuisineLabel,
+  cuisinePromptName,
+  findRegion,
+  parseCuisineSelection,
+  type CuisineRegion,
+} from "./cuisines";
+export {
+  classifyCuisine,
+  cuisineRefusal,
+  deniedCuisine,
+  filterCandidates,
+  resolveRequestedCuisine,
+  verdictCuisine,
+  type PolicyVerdict,
+} from "./policy";
+export {
+  MAX_INGREDIENT_LENGTH,
+  MAX_INGREDIENTS,
+  MAX_INSTRUCTION_LENGTH,
+  looksLikeInstruction,
+  sanitizeIngredients,
+  sanitizeText,
+  type SanitizedIngredients,
+} from "./sanitize";
+export { computeNutrition, findFood, ingredientGrams, withNutrition } from "./nutrition";
+export { keywordPattern } from "./keywords";
+export { parsePartialJson } from "./partial-json";
+export {
+  checkSchema,
+  parseModelJson,
+  validateDetection,
+  validateDetectionJson,
+  validateRecipe,
+  validateRecipeJson,
+  validateSuggestions,
+  validateSuggestionsJson,
+  type ValidationResult,
+} from "./validation";
+export { analyzeImageEndpoint, detectIngredientsEndpoint, generateRecipeEndpoint, refineRecipeEndpoint } from "./endpoints";
+export {
+  corsHeaders,
+  errorResponse,
+  eventStreamResponse,
+  parseJsonText,
+  parseMultipart,
+  runEndpoint,
+  wantsEventStream,
+  type ApiRequest,
+  type ApiResponse,
+  type Endpoint,
+  type ParsedForm,
+} from "./http";
+export {
+  createFixtureProvider,
+  createGeminiProvider,
+  getProvider,
+  setProvider,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmTask,
+} from "./providers";
@@ -0,0 +1,196 @@
+// lib/recipe-engine/ingredients.ts
+// Structured ingredient helpers shared by the server and App.tsx; no runtime dependencies.
+import type { Ingredient, Language } from "./types";
+
+const ARABIC_DIGITS = "٠١٢٣٤٥٦٧٨٩";
+const PERSIAN_DIGITS = "۰۱۲۳۴۵۶۷۸۹";
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "½": 1 / 2, "⅓": 1 / 3, "⅔": 2 / 3, "¼": 1 / 4, "¾": 3 / 4, "⅛": 1 / 8,
+};
+
+/** Quantity words that can stand in for a number, e.g. "نصف كوب" or "half a cup". */
+const QUANTITY_WORDS: Record<string, number> = {
+  "نصف": 1 / 2, "نص": 1 / 2, "ربع": 1 / 4, "ثلث": 1 / 3, "ثلثين": 2 / 3, "ثلثا": 2 / 3,
+  "ثلاثة أرباع": 3 / 4, "واحد": 1, "واحدة": 1, "اثنان": 2, "اثنين": 2, "ثلاث": 3, "ثلاثة": 3,
+  "أربع": 4, "أربعة": 4, "خمس": 5, "خمسة": 5,
+  "half": 1 / 2, "quarter": 1 / 4, "third": 1 / 3, "a": 1, "an": 1, "one": 1, "two": 2,
+  "three": 3, "four": 4, "five": 5, "six": 6, "dozen": 12,
+};
+
+/** Unit spellings (English and Arabic, singular and plural) mapped to a canonical unit key. */
+export const UNIT_ALIASES: Record<string, string> = {
+  cup: "cup", cups: "cup", c: "cup", "كوب": "cup", "أكواب": "cup", "كوبان": "cup", "كوبين": "cup",
+  "كأس": "glass", "كاسة": "glass", "كاسات": "glass", "كأسان": "glass", "كأسين": "glass", glass: "glass", glasses: "glass",
+  tablespoon: "tbsp", tablespoons: "tbsp", tbsp: "tbsp", tbs: "tbsp", "ملعقة كبيرة": "tbsp", "ملاعق كبيرة": "tbsp", "ملعقتان كبيرتان": "tbsp", "ملعقتين كبيرتين": "tbsp",
+  teaspoon: "tsp", teaspoons: "tsp", tsp: "tsp", "ملعقة صغيرة": "tsp", "ملاعق صغيرة": "tsp", "ملعقتان صغيرتان": "tsp", "ملعقتين صغيرتين": "tsp",
+  gram: "g", grams: "g", g: "g", gr: "g", "غرام": "g", "غ": "g", "جرام": "g", "جم": "g",
+  kilogram: "kg", kilograms: "kg", kg: "kg", "كيلو": "kg", "كيلوغرام": "kg", "كغ": "kg", "كيلوجرام": "kg",
+  milliliter: "ml", milliliters: "ml", ml: "ml", "مل": "ml", "مليلتر": "ml",
+  liter: "l", liters: "l", litre: "l", litres: "l", l: "l", "لتر": "l", "لترات": "l",
+  ounce: "oz", ounces: "oz", oz: "oz", "أونصة": "oz", "اونصة": "oz",
+  "fl oz": "fl_oz", "fluid ounce": "fl_oz", "fluid ounces": "fl_oz",
+  "فنجان": "coffee_cup", "فناجين": "coffee_cup", "فنجانان": "coffee_cup", "فنجانين": "coffee_cup", "coffee cup": "coffee_cup", "coffee cups": "coffee_cup",
+  "أوقية": "ouqiya", "اوقية": "ouqiya", "أواق": "ouqiya", ouqiya: "ouqiya",
+  pound: "lb", pounds: "lb", lb: "lb", lbs: "lb", "رطل": "lb", "رطلان": "lb", "رطلين": "lb", "باوند": "lb",
+  pinch: "pinch", "رشة": "pinch",
+  clove: "clove", cloves: "clove", "فص": "clove", "فصوص": "clove", "فصان": "clove", "فصين": "clove",
+  piece: "piece", pieces: "piece", "حبة": "piece", "حبات": "piece", "حبتان": "piece", "حبتين": "piece", "قطعة": "piece", "قطع": "piece",
+  can: "can", cans: "can", "علبة": "can", "علب": "can", "علبتان": "can", "علبتين": "can",
+};
+
+/** Arabic dual unit forms, which carry their own quantity: "ملعقتان كبيرتان زيت" is 2 tbsp of oil. */
+const DUAL_UNITS = new Set([
+  "كوبان", "كوبين", "كأسان", "كأسين", "ملعقتان كبيرتان", "ملعقتين كبيرتين", "ملعقتان صغيرتان", "ملعقتين صغيرتين",
+  "فنجانان", "فنجانين", "رطلان", "رطلين", "فصان", "فصين", "حبتان", "حبتين", "علبتان", "علبتين",
+]);
+
+const OPTIONAL_MARKERS = /\s*[(（]?\s*(optional|اختياري|إختياري|حسب الرغبة)\s*[)）]?\s*$/i;
+
+function toAsciiDigits(text: string): string {
+  return text
+    .replace(/[٠-٩]/g, (d) => String(ARABIC_DIGITS.indexOf(d)))
+    .replace(/[۰-۹]/g, (d) => String(PERSIAN_DIGITS.indexOf(d)))
+    .replace(/٫/g, ".")
+    .replace(/⁄/g, "/");
+}
+
+/** Reads a leading quantity ("1 1/2", "½", "1.5", "١/٢", "نصف") and returns it with the rest of the text. */
+export function parseQuantity(text: string): { quantity?: number; rest: string } {
+  const normalized = toAsciiDigits(text).trim();
+
+  const numeric = normalized.match(/^(\d+(?:\.\d+)?)?\s*(?:(\d+)\/(\d+)|([½⅓⅔¼¾⅛]))?(?:\s*[-–]\s*\d+(?:\.\d+)?)?(?=\s|$|[^\d./])/);
+  if (numeric && numeric[0].trim()) {
+    const [match, whole, num, den, glyph] = numeric;
+    let quantity = whole ? Number(whole) : 0;
+    if (num && den && Number(den) !== 0) {
+      // "1/2" on its own is read as the fraction, "1 1/2" as a mixed number
+      quantity += Number(num) / Number(den);
+    }
+    if (glyph) quantity += UNICODE_FRACTIONS[glyph];
+    if (quantity > 0) return { quantity, rest: normalized.slice(match.length).trim() };
+  }
+
+  const words = Object.keys(QUANTITY_WORDS).sort((a, b) => b.length - a.length);
+  for (const word of words) {
+    if (normalized.toLowerCase().startsWith(word + " ")) {
+      // "half a cup", "a quarter cup": the article belongs to the fraction, not to what follows
+      const rest = normalized.slice(word.length).trim();
+      if (QUANTITY_WORDS[word] < 1) return { quantity: QUANTITY_WORDS[word], rest: rest.replace(/^(a|an)\s+/i, "") };
+      if (/^(a|an)$/.test(word) && /^(half|quarter|third)\s/i.test(rest)) return parseQuantity(rest);
+      return { quantity: QUANTITY_WORDS[word], rest };
+    }
+  }
+  return { rest: normalized };
+}
+
+function matchUnit(text: string): { unit?: string; rest: string } {
+  const aliases = Object.keys(UNIT_ALIASES).sort((a, b) => b.length - a.length);
+  const lower = text.toLowerCase();
+  for (const alias of aliases) {
+    if (lower.startsWith(alias) && /^($|[\s.,،])/.test(lower.slice(alias.length))) {
+      let rest = text.slice(alias.length).replace(/^\.?\s*/, "");
+      // "2 cups of rice", "كوب من الأرز"
+      rest = rest.replace(/^(of|من)\s+/i, "");
+      return { unit: text.slice(0, alias.length), rest };
+    }
+  }
+  return { rest: text };
+}
+
+/** The canonical key ("cup", "tbsp", "g", ...) for a unit as written, or undefined if unknown. */
+export function canonicalUnit(unit: string | undefined): string | undefined {
+  if (!unit) return undefined;
+  return UNIT_ALIASES[unit.trim().toLowerCase()];
+}
+
+/**
+ * Fallback parser for plain-string ingredients ("2 cups rice, washed", "نصف كوب سكر (اختياري)").
+ * Used for older responses and saved recipes from before ingredients were structured.
+ */
+export function parseIngredient(text: string): Ingredient {
+  let working = text.trim().replace(/^[-•*]\s*/, "");
+  const ingredient: Ingredient = { name: working };
+
+  if (OPTIONAL_MARKERS.test(working)) {
+    ingredient.optional = true;
+    working = working.replace(OPTIONAL_MARKERS, "").trim();
+  }
+
+  let { quantity, rest: afterQuantity } = parseQuantity(working);
+  let { unit, rest: afterUnit } = quantity !== undefined ? matchUnit(afterQuantity) : { unit: undefined, rest: afterQuantity };
+  if (quantity === undefined) {
+    const dual = matchUnit(afterQuantity);
+    if (dual.unit && DUAL_UNITS.has(dual.unit)) {
+      quantity = 2;
+      unit = dual.unit;
+      afterUnit = dual.rest;
+    }
+  }
+
+  const [name, ...notes] = afterUnit.split(/\s*[,،]\s*/);
+  ingredient.name = name.trim() || working;
+  if (quantity !== undefined) ingredient.quantity = quantity;
+  if (unit) ingredient.unit = unit;
+  if (notes.length) ingredient.preparation = notes.join(", ");
+  return ingredient;
+}
+
+/** English singular of the last word: "tomatoes" and "glasses" lose "es", "dates" loses "s", "hummus" stays. */
+function singularize(word: string): string {
+  if (!/^[a-z]{4,}$/.test(word) || /(ss|us|is)$/.test(word)) return word;
+  if (/(s|x|z|ch|sh|o)es$/.test(word)) return word.slice(0, -2);
+  return word.replace(/s$/, "");
+}
+
+/** Comparison key for an ingredient name: case, the Arabic article and English plurals are ignored. */
+export function ingredientKey(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/^ال(?=\S{2})/, "")
+    .replace(/\S+$/, singularize);
+}
+
+/**
+ * Merges ingredient name lists, e.g. what was detected in several photos, keeping the first
+ * spelling of each ("Tomatoes" and "tomato", or "الطماطم" and "طماطم", count once).
+ */
+export function mergeIngredientNames(...lists: string[][]): string[] {
+  const merged = new Map<string, string>();
+  for (const name of lists.flat()) {
+    const key = ingredientKey(name);
+    if (key && !merged.has(key)) merged.set(key, name.trim());
+  }
+  return [...merged.values()];
+}
+
+/** Accepts either shape the API has ever returned and always yields a structured ingredient. */
+export function normalizeIngredient(value: string | Ingredient): Ingredient {
+  return typeof value === "string" ? parseIngredient(value) : value;
+}
+
+const FRACTION_GLYPHS: [number, string][] = [[1 / 4, "¼"], [1 / 3, "⅓"], [1 / 2, "½"], [2 / 3, "⅔"], [3 / 4, "¾"]];
+
+/** Renders 1.5 as "1½" and 0.333 as "⅓"; anything else is rounded to two decimals. */
+export function formatQuantity(quantity: number): string {
+  const whole = Math.floor(quantity);
+  const fraction = quantity - whole;
+  if (fraction < 0.01) return String(whole);
+  const glyph = FRACTION_GLYPHS.find(([value]) => Math.abs(value - fraction) < 0.02);
+  if (glyph) return whole ? `${whole}${glyph[1]}` : glyph[1];
+  return String(Math.round(quantity * 100) / 100);
+}
+
+export function formatIngredient(ingredient: Ingredient, language: Language): string {
+  const parts = [
+    ingredient.quantity !== undefined ? formatQuantity(ingredient.quantity) : "",
+    ingredient.unit || "",
+    ingredient.name,
+  ].filter(Boolean);
+  let text = parts.join(" ");
+  if (ingredient.preparation) text += `${language === "ar" ? "، " : ", "}${ingredient.preparation}`;
+  if (ingredient.optional) text += language === "ar" ? " (اختياري)" : " (optional)";
+  return text;
+}
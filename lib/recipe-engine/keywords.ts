@@ -0,0 +1,19 @@
+// lib/recipe-engine/keywords.ts
+// Whole-word matching of English and Arabic ingredient keywords, shared by the dietary and nutrition tables.
+
+const ARABIC = /[؀-ۿ]/;
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Matches `keyword` as a whole word. English allows a plural s/es; Arabic allows the attached
+ * prefixes و، ب، ل، ك and the article ال, and the endings ة، ات، ه.
+ */
+export function keywordPattern(keyword: string): RegExp {
+  const escaped = escapeRegExp(keyword);
+  return ARABIC.test(keyword)
+    ? new RegExp(`(?<!\\p{L})(?:و?[بلك]?(?:ال)?)${escaped}(?:ة|ات|ه)?(?!\\p{L})`, "u")
+    : new RegExp(`(?<!\\p{L})${escaped}(?:e?s)?(?!\\p{L})`, "iu");
+}
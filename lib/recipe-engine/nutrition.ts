@@ -0,0 +1,179 @@
+// lib/recipe-engine/nutrition.ts
+// Per-serving nutrition from a local table of common Middle Eastern and fast-food ingredients.
+// When the table cannot account for every ingredient, the model's own estimate is used instead
+// and marked as estimated.
+import { canonicalUnit } from "./ingredients";
+import { keywordPattern } from "./keywords";
+import { UNIT_TABLE } from "./units";
+import type { Ingredient, Nutrition, NutritionFacts, Recipe } from "./types";
+
+interface FoodEntry {
+  keywords: string[];
+  /** Per 100 g; sodium in mg. */
+  per100g: NutritionFacts;
+  /** g per ml, for volume measures. Defaults to 1. */
+  density?: number;
+  /** Weight of one piece when no unit is given ("1 onion"). */
+  pieceGrams?: number;
+  /** Drained weight of one can. Defaults to 400 g. */
+  canGrams?: number;
+  /** Seasonings and water: fine to leave unquantified ("salt to taste"); counted as `toTasteGrams`. */
+  toTasteGrams?: number;
+}
+
+const facts = (calories: number, protein: number, carbs: number, fat: number, fiber: number, sodium: number): NutritionFacts => ({
+  calories,
+  protein,
+  carbs,
+  fat,
+  fiber,
+  sodium,
+});
+
+/** First match wins, so more specific entries (stock before chicken, paste before tomato) come first. */
+const FOOD_TABLE: FoodEntry[] = [
+  { keywords: ["stock", "broth", "مرق", "مرقة"], per100g: facts(15, 2, 1, 0.5, 0, 300) },
+  { keywords: ["water", "ماء", "مياه"], per100g: facts(0, 0, 0, 0, 0, 0), toTasteGrams: 0 },
+  { keywords: ["salt", "ملح"], per100g: facts(0, 0, 0, 0, 0, 38758), density: 1.2, toTasteGrams: 2 },
+  {
+    keywords: ["spice", "seven spices", "cumin", "paprika", "black pepper", "cinnamon", "cardamom", "turmeric", "allspice", "bay leaf", "sumac", "za'atar", "بهار", "بهارات", "كمون", "فلفل أسود", "قرفة", "هيل", "كركم", "ورق غار", "سماق", "زعتر"],
+    per100g: facts(300, 12, 60, 10, 30, 50),
+    density: 0.5,
+    toTasteGrams: 0,
+  },
+  { keywords: ["tomato paste", "معجون طماطم", "رب البندورة", "معجون البندورة"], per100g: facts(82, 4.3, 19, 0.5, 4.1, 59), density: 1.1 },
+  { keywords: ["pomegranate molasses", "دبس رمان", "دبس الرمان"], per100g: facts(240, 0, 60, 0, 0, 10), density: 1.3 },
+  { keywords: ["olive oil", "vegetable oil", "oil", "زيت زيتون", "زيت"], per100g: facts(884, 0, 0, 100, 0, 2), density: 0.92 },
+  { keywords: ["ghee", "سمن", "سمنة"], per100g: facts(876, 0.3, 0, 99.5, 0, 2), density: 0.91 },
+  { keywords: ["butter", "زبدة"], per100g: facts(717, 0.9, 0.1, 81, 0, 11), density: 0.91 },
+  { keywords: ["tahini", "طحينة", "طحينية"], per100g: facts(595, 17, 21, 54, 9.3, 115) },
+  { keywords: ["rice", "أرز", "رز"], per100g: facts(365, 7.1, 80, 0.7, 1.3, 5), density: 0.85 },
+  { keywords: ["bulgur", "برغل"], per100g: facts(342, 12.3, 76, 1.3, 18.3, 17), density: 0.6 },
+  { keywords: ["freekeh", "فريكة"], per100g: facts(350, 13, 72, 2.5, 13, 10), density: 0.6 },
+  { keywords: ["flour", "طحين", "دقيق"], per100g: facts(364, 10, 76, 1, 2.7, 2), density: 0.53 },
+  { keywords: ["pasta", "spaghetti", "macaroni", "معكرونة", "مكرونة", "سباغيتي"], per100g: facts(371, 13, 75, 1.5, 3.2, 6), density: 0.42 },
+  { keywords: ["vermicelli", "شعيرية"], per100g: facts(371, 13, 75, 1.5, 3.2, 6), density: 0.45 },
+  { keywords: ["bun", "bread", "pita", "خبز", "صمون"], per100g: facts(275, 9, 56, 1.2, 2.2, 536), pieceGrams: 60 },
+  { keywords: ["chicken breast", "صدر دجاج", "صدور دجاج"], per100g: facts(120, 22.5, 0, 2.6, 0, 45), pieceGrams: 200 },
+  { keywords: ["chicken", "دجاج", "فروج"], per100g: facts(215, 18.6, 0, 15, 0, 70), pieceGrams: 200 },
+  { keywords: ["lamb", "mutton", "لحم غنم", "لحم خروف", "غنم", "خروف"], per100g: facts(282, 16.6, 0, 23.4, 0, 59) },
+  { keywords: ["beef", "minced meat", "ground meat", "meat", "kofta", "لحم بقر", "لحم مفروم", "لحمة", "لحم", "كفتة"], per100g: facts(254, 17, 0, 20, 0, 66) },
+  { keywords: ["salmon", "سلمون"], per100g: facts(208, 20, 0, 13, 0, 59) },
+  { keywords: ["tuna", "تونة"], per100g: facts(116, 26, 0, 1, 0, 338), canGrams: 140 },
+  { keywords: ["shrimp", "prawn", "جمبري", "روبيان", "قريدس"], per100g: facts(85, 20, 0, 0.5, 0, 119) },
+  { keywords: ["fish", "سمك", "هامور", "بلطي"], per100g: facts(90, 19, 0, 1, 0, 60) },
+  { keywords: ["egg", "بيض", "بيضة"], per100g: facts(143, 12.6, 0.7, 9.5, 0, 142), pieceGrams: 50 },
+  { keywords: ["labneh", "لبنة"], per100g: facts(160, 6, 4, 13, 0, 200) },
+  { keywords: ["yogurt", "yoghurt", "laban", "لبن", "زبادي"], per100g: facts(61, 3.5, 4.7, 3.3, 0, 46), density: 1.03 },
+  { keywords: ["milk", "حليب"], per100g: facts(61, 3.2, 4.8, 3.3, 0, 43), density: 1.03 },
+  { keywords: ["cream", "قشطة", "كريمة"], per100g: facts(340, 2.1, 2.8, 36, 0, 38) },
+  { keywords: ["cheese", "halloumi", "feta", "mozzarella", "akkawi", "cheddar", "جبن", "جبنة", "حلوم", "عكاوي", "موزاريلا", "شيدر"], per100g: facts(300, 20, 2, 24, 0, 700), density: 0.45 },
+  { keywords: ["chickpea", "حمص"], per100g: facts(150, 8, 24, 2.6, 7, 150), canGrams: 240, density: 0.65 },
+  { keywords: ["fava bean", "foul", "فول"], per100g: facts(110, 7.6, 19.6, 0.4, 5.4, 200), canGrams: 400, density: 0.7 },
+  { keywords: ["lentil", "عدس"], per100g: facts(352, 24.6, 63, 1.1, 10.7, 6), density: 0.8 },
+  { keywords: ["potato", "بطاطا", "بطاطس"], per100g: facts(77, 2, 17, 0.1, 2.2, 6), pieceGrams: 170, density: 0.65 },
+  { keywords: ["eggplant", "aubergine", "باذنجان"], per100g: facts(25, 1, 6, 0.2, 3, 2), pieceGrams: 450, density: 0.35 },
+  { keywords: ["cauliflower", "قرنبيط", "زهرة"], per100g: facts(25, 1.9, 5, 0.3, 2, 30), pieceGrams: 600, density: 0.45 },
+  { keywords: ["zucchini", "courgette", "كوسا", "كوسة"], per100g: facts(17, 1.2, 3.1, 0.3, 1, 8), pieceGrams: 200, density: 0.5 },
+  { keywords: ["bell pepper", "pepper", "فليفلة", "فلفل رومي", "فلفل حلو"], per100g: facts(26, 1, 6, 0.3, 2.1, 4), pieceGrams: 150, density: 0.5 },
+  { keywords: ["garlic", "ثوم"], per100g: facts(149, 6.4, 33, 0.5, 2.1, 17), pieceGrams: 5, density: 0.6 },
+  { keywords: ["onion", "بصل", "بصلة"], per100g: facts(40, 1.1, 9.3, 0.1, 1.7, 4), pieceGrams: 110, density: 0.6 },
+  { keywords: ["tomato", "طماطم", "بندورة"], per100g: facts(18, 0.9, 3.9, 0.2, 1.2, 5), pieceGrams: 120, density: 0.7 },
+  { keywords: ["carrot", "جزر"], per100g: facts(41, 0.9, 10, 0.2, 2.8, 69), pieceGrams: 60, density: 0.55 },
+  { keywords: ["cucumber", "خيار"], per100g: facts(15, 0.7, 3.6, 0.1, 0.5, 2), pieceGrams: 200, density: 0.55 },
+  { keywords: ["lettuce", "خس"], per100g: facts(15, 1.4, 2.9, 0.2, 1.3, 28), pieceGrams: 300, density: 0.25 },
+  { keywords: ["parsley", "بقدونس"], per100g: facts(36, 3, 6.3, 0.8, 3.3, 56), pieceGrams: 50, density: 0.25, toTasteGrams: 0 },
+  { keywords: ["mint", "coriander", "cilantro", "نعناع", "كزبرة"], per100g: facts(44, 3.3, 8.4, 0.7, 6.8, 31), pieceGrams: 30, density: 0.25, toTasteGrams: 0 },
+  { keywords: ["lemon", "ليمون", "حامض"], per100g: facts(22, 0.4, 6.9, 0.2, 0.3, 1), pieceGrams: 50 },
+  { keywords: ["pine nut", "صنوبر"], per100g: facts(673, 13.7, 13, 68, 3.7, 2), density: 0.55 },
+  { keywords: ["almond", "لوز"], per100g: facts(579, 21, 22, 50, 12.5, 1), density: 0.6 },
+  { keywords: ["walnut", "جوز"], per100g: facts(654, 15, 14, 65, 6.7, 2), density: 0.5 },
+  { keywords: ["pistachio", "فستق"], per100g: facts(560, 20, 28, 45, 10.6, 1), density: 0.55 },
+  { keywords: ["date", "تمر"], per100g: facts(282, 2.5, 75, 0.4, 8, 2), pieceGrams: 8 },
+  { keywords: ["sugar", "سكر"], per100g: facts(387, 0, 100, 0, 0, 1), density: 0.85 },
+  { keywords: ["honey", "عسل"], per100g: facts(304, 0.3, 82, 0, 0.2, 4), density: 1.42 },
+  { keywords: ["mayonnaise", "مايونيز"], per100g: facts(680, 1, 0.6, 75, 0, 635), density: 0.95 },
+  { keywords: ["ketchup", "كاتشب"], per100g: facts(101, 1, 27, 0.1, 0.3, 907), density: 1.15 },
+  { keywords: ["mustard", "خردل", "مسطردة"], per100g: facts(66, 4.4, 5.3, 4, 3.3, 1135), density: 1.05 },
+  { keywords: ["vinegar", "خل"], per100g: facts(18, 0, 0, 0, 0, 2), toTasteGrams: 0 },
+];
+
+const FOOD_PATTERNS = FOOD_TABLE.map((entry) => ({ entry, patterns: entry.keywords.map(keywordPattern) }));
+
+/** Units that do not come from UNIT_TABLE. */
+const PINCH_GRAMS = 0.3;
+const CLOVE_GRAMS = 5;
+const DEFAULT_CAN_GRAMS = 400;
+
+export function findFood(name: string): FoodEntry | undefined {
+  const text = name.toLowerCase();
+  return FOOD_PATTERNS.find(({ patterns }) => patterns.some((pattern) => pattern.test(text)))?.entry;
+}
+
+/** Weight of an ingredient line in grams, or undefined when the table cannot tell. */
+export function ingredientGrams(ingredient: Ingredient, food: FoodEntry): number | undefined {
+  if (ingredient.quantity === undefined) return food.toTasteGrams;
+
+  const unit = canonicalUnit(ingredient.unit);
+  const info = unit ? UNIT_TABLE[unit] : undefined;
+  if (info) return ingredient.quantity * info.base * (info.kind === "volume" ? food.density ?? 1 : 1);
+  if (unit === "pinch") return ingredient.quantity * PINCH_GRAMS;
+  if (unit === "clove") return ingredient.quantity * CLOVE_GRAMS;
+  if (unit === "can") return ingredient.quantity * (food.canGrams ?? DEFAULT_CAN_GRAMS);
+  if (!ingredient.unit || unit === "piece") return food.pieceGrams && ingredient.quantity * food.pieceGrams;
+  return undefined;
+}
+
+function round(facts: NutritionFacts): NutritionFacts {
+  const oneDecimal = (n: number) => Math.round(n * 10) / 10;
+  return {
+    calories: Math.round(facts.calories),
+    protein: oneDecimal(facts.protein),
+    carbs: oneDecimal(facts.carbs),
+    fat: oneDecimal(facts.fat),
+    fiber: oneDecimal(facts.fiber),
+    sodium: Math.round(facts.sodium),
+  };
+}
+
+/**
+ * Per-serving totals from FOOD_TABLE, or undefined unless every non-optional ingredient
+ * can be matched and weighed. Optional ingredients are left out.
+ */
+export function computeNutrition(recipe: Pick<Recipe, "ingredients" | "servings">): NutritionFacts | undefined {
+  const totals = facts(0, 0, 0, 0, 0, 0);
+  for (const ingredient of recipe.ingredients) {
+    if (ingredient.optional) continue;
+    const food = findFood(ingredient.name);
+    const grams = food && ingredientGrams(ingredient, food);
+    if (grams === undefined) return undefined;
+    for (const key of Object.keys(totals) as (keyof NutritionFacts)[]) {
+      totals[key] += (food!.per100g[key] * grams) / 100;
+    }
+  }
+
+  const servings = recipe.servings > 0 ? recipe.servings : 1;
+  const perServing = { ...totals };
+  for (const key of Object.keys(perServing) as (keyof NutritionFacts)[]) perServing[key] /= servings;
+  return round(perServing);
+}
+
+/** A model estimate is only shown when at least the energy and macros are present. */
+const ESTIMATE_REQUIRED: (keyof NutritionFacts)[] = ["calories", "protein", "carbs", "fat"];
+
+/**
+ * Sets `recipe.nutrition`: the table result when it covers the whole recipe, otherwise the model's
+ * estimate (marked `estimated`), otherwise nothing.
+ */
+export function withNutrition<T extends Recipe>(recipe: T): T {
+  const computed = computeNutrition(recipe);
+  if (computed) return { ...recipe, nutrition: { ...computed, source: "table", estimated: false } };
+
+  const model = recipe.nutrition;
+  if (model && ESTIMATE_REQUIRED.every((key) => typeof model[key] === "number")) {
+    const estimate: Nutrition = { ...round({ fiber: 0, sodium: 0, ...model }), source: "model", estimated: true };
+    return { ...recipe, nutrition: estimate };
+  }
+  const { nutrition: _, ...rest } = recipe;
+  return rest as T;
+}
@@ -0,0 +1,64 @@
+// lib/recipe-engine/partial-json.ts
+// Best-effort parsing of a JSON document that is still being streamed.
+
+/**
+ * Parses the longest usable prefix of `text`: open strings, arrays and objects are closed,
+ * and a dangling key or trailing comma is dropped. Returns undefined if nothing parses yet.
+ */
+export function parsePartialJson(text: string): unknown {
+  const start = text.indexOf("{");
+  if (start < 0) return undefined;
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  // Positions right after a complete value, with the closers needed at that point
+  const safePoints: { end: number; closers: string }[] = [];
+  const closers = () => stack.slice().reverse().join("");
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') {
+        inString = false;
+        safePoints.push({ end: i + 1, closers: closers() });
+      }
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === ":") safePoints.pop(); // the string that just ended was a key, not a value
+    else if (ch === "{") stack.push("}");
+    else if (ch === "[") stack.push("]");
+    else if (ch === "}" || ch === "]") {
+      stack.pop();
+      safePoints.push({ end: i + 1, closers: closers() });
+      if (!stack.length) break;
+    } else if (ch === ",") {
+      // whatever preceded the comma (number, literal, string, container) is complete
+      safePoints.push({ end: i, closers: closers() });
+    }
+  }
+
+  const attempts: string[] = [];
+  const body = text.slice(start);
+  if (inString && !escaped) {
+    // Keep the growing string (e.g. an instruction being written) visible
+    attempts.push(body + '"' + closers());
+  }
+  if (!inString) attempts.push(body.replace(/,\s*$/, "") + closers());
+  // The newest safe point may be a key still waiting for its colon, so try a couple
+  for (const point of safePoints.slice(-3).reverse()) {
+    attempts.push(text.slice(start, point.end) + point.closers);
+  }
+
+  for (const attempt of attempts) {
+    try {
+      return JSON.parse(attempt);
+    } catch {
+      // try a more conservative cut
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,153 @@
+// lib/recipe-engine/policy.ts
+// Which cuisines the app serves, enforced in code: requested cuisines must come from the taxonomy,
+// and generated recipes must be classified as an allowed origin/cuisineType, so off-policy output
+// (a denied cuisine, or one on neither list) never reaches users.
+import { CUISINE_TAXONOMY, DEFAULT_CUISINE, parseCuisineSelection } from "./cuisines";
+import { RecipeEngineError } from "./errors";
+import { keywordPattern } from "./keywords";
+import type { CuisineRefusal, CuisineSelection, Language, Recipe, RecipeCandidate } from "./types";
+
+/**
+ * Cuisines the app explicitly refuses (the prompt's forbidden list), in English and Arabic.
+ * `keywords` are adjectives and dishes, looked for anywhere; `places` are country and region
+ * names, only looked for in the origin and cuisine fields ("Turkey Club Sandwich" is not Turkish).
+ */
+const DENIED_CUISINES: { label: Record<Language, string>; keywords: string[]; places: string[] }[] = [
+  { label: { en: "Korean", ar: "الكوري" }, keywords: ["korean", "كوري", "كورية"], places: ["korea", "كوريا"] },
+  { label: { en: "Japanese", ar: "الياباني" }, keywords: ["japanese", "sushi", "ياباني", "يابانية", "سوشي"], places: ["japan", "اليابان"] },
+  { label: { en: "Chinese", ar: "الصيني" }, keywords: ["chinese", "صيني", "صينية"], places: ["china", "الصين"] },
+  { label: { en: "Thai", ar: "التايلندي" }, keywords: ["thai", "تايلندي", "تايلاندي"], places: ["thailand", "تايلند", "تايلاند"] },
+  { label: { en: "Vietnamese", ar: "الفيتنامي" }, keywords: ["vietnamese", "فيتنامي", "فيتنامية"], places: ["vietnam", "فيتنام"] },
+  { label: { en: "Indian", ar: "الهندي" }, keywords: ["indian", "tandoori", "masala", "هندي", "هندية", "تندوري", "ماسالا"], places: ["india", "الهند"] },
+  { label: { en: "Indonesian", ar: "الإندونيسي" }, keywords: ["indonesian", "إندونيسي", "إندونيسية"], places: ["indonesia", "إندونيسيا"] },
+  { label: { en: "Filipino", ar: "الفلبيني" }, keywords: ["filipino", "philippine", "فلبيني", "فلبينية"], places: ["philippines", "الفلبين"] },
+  { label: { en: "Malaysian", ar: "الماليزي" }, keywords: ["malaysian", "ماليزي", "ماليزية"], places: ["malaysia", "ماليزيا"] },
+  {
+    label: { en: "Asian", ar: "الآسيوي" },
+    keywords: ["asian", "pakistani", "bangladeshi", "sri lankan", "nepalese", "taiwanese", "cambodian", "burmese", "mongolian", "آسيوي", "آسيوية", "باكستاني", "باكستانية"],
+    places: [
+      "asia", "pakistan", "bangladesh", "sri lanka", "nepal", "singapore", "cambodia", "laos", "myanmar", "mongolia", "taiwan", "hong kong",
+      "آسيا", "باكستان", "بنغلاديش", "سريلانكا", "نيبال", "سنغافورة", "كمبوديا", "لاوس", "ميانمار", "منغوليا", "تايوان", "هونغ كونغ",
+    ],
+  },
+  { label: { en: "Turkish", ar: "التركي" }, keywords: ["turkish", "ottoman", "تركي", "تركية", "عثماني"], places: ["turkey", "türkiye", "تركيا"] },
+];
+
+/** Origins that are in policy, beyond the taxonomy's own labels; any other origin is off-policy. */
+const ALLOWED_ORIGINS = [
+  "syria", "lebanon", "iraq", "palestine", "egypt", "jordan", "saudi arabia", "yemen", "levant", "arabia",
+  "kuwait", "qatar", "bahrain", "emirates", "uae", "oman", "gulf", "usa", "united states", "america", "italy", "western",
+  "fast food", "سوريا", "لبنان", "العراق", "فلسطين", "مصر", "الأردن", "السعودية", "اليمن", "الشام", "الخليج",
+  "الكويت", "قطر", "البحرين", "الإمارات", "عمان", "أمريكا", "الولايات المتحدة", "إيطاليا", "غربي",
+];
+
+const DENIED_PATTERNS = DENIED_CUISINES.map(({ label, keywords, places }) => ({
+  label,
+  keywords: keywords.map(keywordPattern),
+  places: places.map(keywordPattern),
+}));
+
+const ALLOWED_PATTERNS = [
+  ...ALLOWED_ORIGINS,
+  ...CUISINE_TAXONOMY.flatMap((region) => [region, ...region.countries].flatMap((e) => [e.label.en, e.label.ar])),
+].map(keywordPattern);
+
+/**
+ * The denied cuisine `text` names, if any ("Korean BBQ" → Korean), labelled in both languages.
+ * Pass `places: false` for dish names, where a country name can be an ingredient ("turkey").
+ */
+export function deniedCuisine(text: string, { places = true } = {}): Record<Language, string> | undefined {
+  return DENIED_PATTERNS.find(
+    (denied) => denied.keywords.some((p) => p.test(text)) || (places && denied.places.some((p) => p.test(text))),
+  )?.label;
+}
+
+export type PolicyVerdict = { status: "allowed" | "unknown" } | { status: "denied"; cuisine: Record<Language, string> };
+
+/**
+ * Classifies a generated recipe or suggestion by its origin and cuisine. A denied cuisine in
+ * any field wins (only its adjectives and dishes in the name); otherwise it is "allowed" when
+ * the origin or cuisine names a covered country or region, and "unknown" when it does not.
+ * Callers serve only "allowed": the policy is an allow-list, "unknown" is off-policy too.
+ */
+export function classifyCuisine(recipe: Pick<Recipe, "origin" | "recipeName"> & { cuisineType?: string }): PolicyVerdict {
+  const cuisine =
+    deniedCuisine(recipe.origin) ?? deniedCuisine(recipe.cuisineType ?? "") ?? deniedCuisine(recipe.recipeName, { places: false });
+  if (cuisine) return { status: "denied", cuisine };
+  const allowed = [recipe.origin, recipe.cuisineType ?? ""].some((field) => ALLOWED_PATTERNS.some((p) => p.test(field)));
+  return { status: allowed ? "allowed" : "unknown" };
+}
+
+const REFUSAL_TEXT: Record<Language, Record<CuisineRefusal["reason"], { title: string; message: (name?: string) => string }>> = {
+  en: {
+    forbidden: {
+      title: "Cuisine not available",
+      message: (name) => `${name ?? "This"} cuisine is outside what this kitchen cooks. Choose a Middle Eastern or Western fast-food cuisine instead.`,
+    },
+    unsupported: {
+      title: "Unknown cuisine",
+      message: () => "Please pick a cuisine from the list: Middle Eastern or Western fast food.",
+    },
+    off_policy_result: {
+      title: "No recipe in our cuisines",
+      message: (name) => `We could only come up with ${name ? `${name} dishes` : "dishes outside our cuisines"} for this request. Try other ingredients or a different cuisine.`,
+    },
+  },
+  ar: {
+    forbidden: {
+      title: "المطبخ غير متاح",
+      message: (name) => `${name ? `المطبخ ${name}` : "هذا المطبخ"} خارج ما نقدمه. اختر مطبخاً شرق أوسطياً أو غربياً سريعاً.`,
+    },
+    unsupported: {
+      title: "مطبخ غير معروف",
+      message: () => "يرجى اختيار مطبخ من القائمة: شرق أوسطي أو غربي سريع.",
+    },
+    off_policy_result: {
+      title: "لا توجد وصفة ضمن مطابخنا",
+      message: (name) => `${name ? `لم نجد إلا أطباقاً من المطبخ ${name}` : "لم نتمكن من اقتراح طبق ضمن المطابخ التي نقدمها"}. جرّب مكونات أخرى أو مطبخاً مختلفاً.`,
+    },
+  },
+};
+
+/** A 422 whose `details.refusal` the app renders as a refusal card instead of a generic error. */
+export function cuisineRefusal(
+  reason: CuisineRefusal["reason"],
+  language: Language,
+  cuisine?: Record<Language, string>,
+): RecipeEngineError {
+  const text = REFUSAL_TEXT[language][reason];
+  const refusal: CuisineRefusal = {
+    reason,
+    cuisine: cuisine?.[language],
+    title: text.title,
+    message: text.message(cuisine?.[language]),
+    alternatives: CUISINE_TAXONOMY.map((region) => ({ region: region.id, label: region.label[language] })),
+  };
+  return new RecipeEngineError(422, refusal.message, { code: "cuisine_not_allowed", details: { refusal } });
+}
+
+/** Validates the cuisine from a request body; missing means the default, anything off-taxonomy is refused. */
+export function resolveRequestedCuisine(value: unknown, language: Language): CuisineSelection {
+  if (value === undefined || value === null || value === "") return DEFAULT_CUISINE;
+  const selection = parseCuisineSelection(value);
+  if (selection) return selection;
+
+  // Free text is never echoed back; only a recognized denied cuisine is named in the refusal
+  const denied = deniedCuisine(typeof value === "string" ? value : JSON.stringify(value));
+  throw cuisineRefusal(denied ? "forbidden" : "unsupported", language, denied);
+}
+
+/** The denied cuisine a verdict names, for refusals and retry prompts; undefined when it is merely unknown. */
+export function verdictCuisine(verdict: PolicyVerdict): Record<Language, string> | undefined {
+  return verdict.status === "denied" ? verdict.cuisine : undefined;
+}
+
+/** Keeps only suggestions from allowed cuisines; refuses when none are left. */
+export function filterCandidates(candidates: RecipeCandidate[], language: Language): RecipeCandidate[] {
+  const verdicts = candidates.map(classifyCuisine);
+  const kept = candidates.filter((_, i) => verdicts[i].status === "allowed");
+  if (!kept.length) {
+    throw cuisineRefusal("off_policy_result", language, verdicts.map(verdictCuisine).find(Boolean));
+  }
+  return kept;
+}
@@ -0,0 +1,138 @@
+// lib/recipe-engine/providers/fixture.ts
+// Offline provider for local development and end-to-end tests: no network, same answer every time.
+import type { DetectedIngredient, Recipe, RecipeCandidate } from "../types";
+import type { LlmProvider, LlmRequest } from "./types";
+
+const FIXTURES: Record<"ar" | "en", Recipe> = {
+  en: {
+    recipeName: "Chicken Maqluba",
+    origin: "Palestine",
+    cuisineType: "Middle Eastern",
+    prepTime: "30 minutes",
+    cookTime: "60 minutes",
+    difficulty: "Medium",
+    servings: 4,
+    ingredients: [
+      { name: "rice", quantity: 2, unit: "cups", preparation: "soaked" },
+      { name: "chicken pieces", quantity: 1, unit: "kg" },
+      { name: "large eggplant", quantity: 1, preparation: "sliced" },
+      { name: "small cauliflower", quantity: 1, preparation: "cut into florets" },
+      { name: "onion", quantity: 1, preparation: "quartered" },
+      { name: "seven spices", quantity: 2, unit: "tsp" },
+      { name: "chicken stock", quantity: 4, unit: "cups" },
+      { name: "toasted pine nuts", quantity: 0.25, unit: "cup", optional: true },
+    ],
+    instructions: [
+      "Soak the rice for 30 minutes, then drain.",
+      "Boil the chicken with the onion and spices to make the stock.",
+      "Fry the eggplant and cauliflower until golden.",
+      "Layer the chicken, vegetables and rice in a deep pot.",
+      "Pour in the stock and cook covered on low heat for 35 minutes.",
+      "Rest for 10 minutes, then flip the pot onto a large tray.",
+    ],
+    chefTips: "Fry the vegetables well so the layers hold their shape when flipped.",
+  },
+  ar: {
+    recipeName: "مقلوبة الدجاج",
+    origin: "فلسطين",
+    cuisineType: "شرق أوسطي",
+    prepTime: "30 دقيقة",
+    cookTime: "60 دقيقة",
+    difficulty: "متوسط",
+    servings: 4,
+    ingredients: [
+      { name: "أرز", quantity: 2, unit: "كوب", preparation: "منقوع" },
+      { name: "قطع دجاج", quantity: 1, unit: "كغ" },
+      { name: "باذنجان كبير", quantity: 1, preparation: "مقطع شرائح" },
+      { name: "قرنبيط صغير", quantity: 1, preparation: "مقطع زهرات" },
+      { name: "بصلة", quantity: 1, preparation: "مقطعة أرباعاً" },
+      { name: "بهارات سبعة", quantity: 2, unit: "ملعقة صغيرة" },
+      { name: "مرق دجاج", quantity: 4, unit: "كوب" },
+      { name: "صنوبر محمص", quantity: 0.25, unit: "كوب", optional: true },
+    ],
+    instructions: [
+      "انقع الأرز لمدة 30 دقيقة ثم صفّه.",
+      "اسلق الدجاج مع البصل والبهارات لتحضير المرق.",
+      "اقلِ الباذنجان والقرنبيط حتى يصبحا ذهبيين.",
+      "رتّب الدجاج والخضار والأرز طبقات في قدر عميق.",
+      "أضف المرق واطهُ مغطى على نار هادئة لمدة 35 دقيقة.",
+      "اتركه 10 دقائق ثم اقلب القدر في صينية كبيرة.",
+    ],
+    chefTips: "اقلِ الخضار جيداً لتحافظ الطبقات على شكلها عند القلب.",
+  },
+};
+
+const DETECTED: Record<"ar" | "en", string[]> = {
+  en: ["rice", "chicken", "eggplant", "cauliflower", "onion"],
+  ar: ["أرز", "دجاج", "باذنجان", "قرنبيط", "بصل"],
+};
+
+/** DETECTED with the confidence and location detect-ingredients reports; the last item is a doubtful one. */
+const DETECTION_SCORES: Pick<DetectedIngredient, "confidence" | "box">[] = [
+  { confidence: 0.96, box: { x: 0.05, y: 0.1, width: 0.3, height: 0.25 } },
+  { confidence: 0.91, box: { x: 0.4, y: 0.05, width: 0.35, height: 0.3 } },
+  { confidence: 0.83, box: { x: 0.1, y: 0.5, width: 0.25, height: 0.3 } },
+  { confidence: 0.67, box: { x: 0.55, y: 0.5, width: 0.3, height: 0.3 } },
+  { confidence: 0.38 },
+];
+
+const CANDIDATES: Record<"ar" | "en", RecipeCandidate[]> = {
+  en: [
+    { recipeName: "Chicken Maqluba", origin: "Palestine", difficulty: "Medium", totalTime: "90 minutes", description: "Upside-down rice with chicken, fried eggplant and cauliflower." },
+    { recipeName: "Chicken Kabsa", origin: "Saudi Arabia", difficulty: "Easy", totalTime: "75 minutes", description: "Spiced long-grain rice cooked in chicken broth with dried lime." },
+    { recipeName: "Chicken Shawarma Wrap", origin: "Lebanon", difficulty: "Easy", totalTime: "40 minutes", description: "Marinated chicken strips rolled in flatbread with garlic sauce." },
+  ],
+  ar: [
+    { recipeName: "مقلوبة الدجاج", origin: "فلسطين", difficulty: "متوسط", totalTime: "90 دقيقة", description: "أرز مقلوب مع الدجاج والباذنجان والقرنبيط المقلي." },
+    { recipeName: "كبسة الدجاج", origin: "السعودية", difficulty: "سهل", totalTime: "75 دقيقة", description: "أرز طويل متبّل مطهو بمرق الدجاج واللومي." },
+    { recipeName: "شاورما دجاج", origin: "لبنان", difficulty: "سهل", totalTime: "40 دقيقة", description: "شرائح دجاج متبّلة ملفوفة بالخبز مع صلصة الثوم." },
+  ],
+};
+
+const REFINE_EXTRA: Record<"ar" | "en", Recipe["ingredients"][number]> = {
+  en: { name: "chili flakes", quantity: 1, unit: "tsp" },
+  ar: { name: "رقائق الفلفل الحار", quantity: 1, unit: "ملعقة صغيرة" },
+};
+
+const REFINE_TIP: Record<"ar" | "en", string> = {
+  en: "Add the chili flakes with the spices for an even heat.",
+  ar: "أضف رقائق الفلفل الحار مع البهارات ليتوزع الطعم الحار بالتساوي.",
+};
+
+function fixtureJson({ task, language }: LlmRequest): string {
+  if (task === "suggestions") {
+    return JSON.stringify({ candidates: CANDIDATES[language] });
+  }
+  if (task === "detect") {
+    return JSON.stringify({
+      ingredients: DETECTED[language].map((name, i) => ({ name, image: 0, ...DETECTION_SCORES[i] })),
+    });
+  }
+  const recipe: Recipe = { ...FIXTURES[language] };
+  if (task === "image") {
+    recipe.detectedIngredients = DETECTED[language];
+  }
+  if (task === "refine") {
+    // A fixed, visible edit so the refinement diff has something to show
+    recipe.ingredients = [...recipe.ingredients, REFINE_EXTRA[language]];
+    recipe.chefTips = REFINE_TIP[language];
+  }
+  return JSON.stringify(recipe);
+}
+
+export function createFixtureProvider(): LlmProvider {
+  return {
+    name: "fixture",
+    async generateJson(request) {
+      return fixtureJson(request);
+    },
+    async *streamJson(request) {
+      // Small chunks with a short pause, so progressive rendering can be exercised offline
+      const text = fixtureJson(request);
+      for (let i = 0; i < text.length; i += 48) {
+        await new Promise((resolve) => setTimeout(resolve, 40));
+        yield text.slice(i, i + 48);
+      }
+    },
+  };
+}
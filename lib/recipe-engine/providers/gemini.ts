@@ -0,0 +1,49 @@
+// lib/recipe-engine/providers/gemini.ts
+import { GoogleGenAI, type ContentListUnion, type GenerateContentParameters } from "@google/genai";
+import { RecipeEngineError } from "../errors";
+import { SYSTEM_INSTRUCTION } from "../prompts";
+import { schemaForTask } from "../schema";
+import type { LlmProvider, LlmRequest } from "./types";
+
+export const GEMINI_MODEL = "gemini-3-flash-preview";
+
+export function createGeminiProvider(apiKey = process.env.GEMINI_API_KEY): LlmProvider {
+  let client: GoogleGenAI | null = null;
+
+  function getClient(): GoogleGenAI {
+    if (!apiKey) {
+      throw new RecipeEngineError(500, "GEMINI_API_KEY is not set");
+    }
+    client ??= new GoogleGenAI({ apiKey });
+    return client;
+  }
+
+  function toParams({ task, prompt, images }: LlmRequest): GenerateContentParameters {
+    const contents: ContentListUnion = images?.length
+      ? [{ text: prompt }, ...images.map((image) => ({ inlineData: image }))]
+      : prompt;
+    return {
+      model: GEMINI_MODEL,
+      contents,
+      config: {
+        systemInstruction: SYSTEM_INSTRUCTION,
+        responseMimeType: "application/json",
+        responseSchema: schemaForTask(task),
+      },
+    };
+  }
+
+  return {
+    name: "gemini",
+    async generateJson(request) {
+      const response = await getClient().models.generateContent(toParams(request));
+      return response.text || "";
+    },
+    async *streamJson(request) {
+      const stream = await getClient().models.generateContentStream(toParams(request));
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  };
+}
@@ -0,0 +1,32 @@
+// lib/recipe-engine/providers/index.ts
+import { createFixtureProvider } from "./fixture";
+import { createGeminiProvider } from "./gemini";
+import type { LlmProvider } from "./types";
+
+export type { LlmProvider, LlmRequest, LlmTask } from "./types";
+export { createFixtureProvider, createGeminiProvider };
+
+const factories: Record<string, () => LlmProvider> = {
+  gemini: () => createGeminiProvider(),
+  fixture: createFixtureProvider,
+};
+
+let current: LlmProvider | null = null;
+
+/** The provider named by RECIPE_PROVIDER (gemini | fixture), created once per process. */
+export function getProvider(): LlmProvider {
+  if (!current) {
+    const name = (process.env.RECIPE_PROVIDER || "gemini").toLowerCase();
+    const factory = factories[name];
+    if (!factory) {
+      throw new Error(`Unknown RECIPE_PROVIDER "${name}". Expected one of: ${Object.keys(factories).join(", ")}`);
+    }
+    current = factory();
+  }
+  return current;
+}
+
+/** Swaps in another provider, such as the recording fixture the endpoint tests use; null re-reads RECIPE_PROVIDER. */
+export function setProvider(provider: LlmProvider | null): void {
+  current = provider;
+}
@@ -0,0 +1,20 @@
+// lib/recipe-engine/providers/types.ts
+import type { Language } from "../types";
+
+/** "suggestions" answers with SUGGESTIONS_SCHEMA, "detect" with DETECTION_SCHEMA; the other tasks with RECIPE_SCHEMA. */
+export type LlmTask = "recipe" | "image" | "dish" | "suggestions" | "refine" | "detect";
+
+export interface LlmRequest {
+  task: LlmTask;
+  prompt: string;
+  language: Language;
+  images?: { data: string; mimeType: string }[];
+}
+
+/** Anything that can turn a prompt into JSON text shaped by the task's schema (see schemaForTask). */
+export interface LlmProvider {
+  readonly name: string;
+  generateJson(request: LlmRequest): Promise<string>;
+  /** Same as generateJson but yields the text as it is produced. Optional: callers fall back to generateJson. */
+  streamJson?(request: LlmRequest): AsyncIterable<string>;
+}
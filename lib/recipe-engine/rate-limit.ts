@@ -0,0 +1,118 @@
+// lib/recipe-engine/rate-limit.ts
+// Per-IP limits for anonymous callers and per-uid daily quotas for signed-in users.
+//   RATE_LIMIT_STORE=memory|sqlite (default memory)
+//   RATE_LIMIT_ANON_PER_HOUR (default 10), RATE_LIMIT_USER_PER_DAY (default 50)
+import { RecipeEngineError } from "./errors";
+import type { ApiRequest } from "./http";
+import { getDatabase } from "./sqlite";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface RateLimitStore {
+  /** Counts one hit against `key` in the fixed window ending at `resetAt` and returns the new total. */
+  hit(key: string, resetAt: number, now: number): Promise<number>;
+  /** The hits counted against `key` so far without adding one; 0 once its window has ended. */
+  count(key: string, now: number): Promise<number>;
+}
+
+export function createMemoryStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+  return {
+    async hit(key, resetAt, now) {
+      const entry = windows.get(key);
+      if (!entry || entry.resetAt <= now) {
+        // Drop expired windows so long-running servers do not grow without bound
+        for (const [k, v] of windows) if (v.resetAt <= now) windows.delete(k);
+        windows.set(key, { count: 1, resetAt });
+        return 1;
+      }
+      entry.count += 1;
+      return entry.count;
+    },
+    async count(key, now) {
+      const entry = windows.get(key);
+      return entry && entry.resetAt > now ? entry.count : 0;
+    },
+  };
+}
+
+export function createSqliteStore(): RateLimitStore {
+  const db = getDatabase();
+  db.exec("CREATE TABLE IF NOT EXISTS rate_limits (key TEXT PRIMARY KEY, count INTEGER NOT NULL, reset_at INTEGER NOT NULL)");
+  const upsert = db.prepare(`
+    INSERT INTO rate_limits (key, count, reset_at) VALUES (@key, 1, @resetAt)
+    ON CONFLICT(key) DO UPDATE SET
+      count = CASE WHEN reset_at <= @now THEN 1 ELSE count + 1 END,
+      reset_at = CASE WHEN reset_at <= @now THEN @resetAt ELSE reset_at END
+    RETURNING count
+  `);
+  const select = db.prepare("SELECT count FROM rate_limits WHERE key = ? AND reset_at > ?");
+  return {
+    async hit(key, resetAt, now) {
+      return (upsert.get({ key, resetAt, now }) as { count: number }).count;
+    },
+    async count(key, now) {
+      return (select.get(key, now) as { count: number } | undefined)?.count ?? 0;
+    },
+  };
+}
+
+let current: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  current ??= process.env.RATE_LIMIT_STORE === "sqlite" ? createSqliteStore() : createMemoryStore();
+  return current;
+}
+
+/** Installs a store in place of RATE_LIMIT_STORE's choice (a fresh memory store per test); null re-reads the env. */
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  current = store;
+}
+
+function limitFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/** The caller's quota window: signed-in users get a daily quota (UTC day), anonymous callers an hourly one per IP. */
+function quotaWindow(req: ApiRequest, now: number) {
+  const limit = req.uid
+    ? limitFromEnv("RATE_LIMIT_USER_PER_DAY", 50)
+    : limitFromEnv("RATE_LIMIT_ANON_PER_HOUR", 10);
+  const windowMs = req.uid ? DAY_MS : HOUR_MS;
+  const resetAt = Math.floor(now / windowMs) * windowMs + windowMs;
+  const key = req.uid ? `uid:${req.uid}:${resetAt}` : `ip:${req.ip || "unknown"}:${resetAt}`;
+  return { limit, resetAt, key, scope: req.uid ? "user-day" : "ip-hour" };
+}
+
+function quotaHeaders({ limit, resetAt, scope }: ReturnType<typeof quotaWindow>, count: number): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": String(limit),
+    "X-RateLimit-Remaining": String(Math.max(0, limit - count)),
+    "X-RateLimit-Reset": String(Math.ceil(resetAt / 1000)),
+    "X-RateLimit-Scope": scope,
+  };
+}
+
+/** Counts a model call against the caller's allowance and returns the X-RateLimit-* headers to send. */
+export async function consumeQuota(req: ApiRequest, now = Date.now()): Promise<Record<string, string>> {
+  const window = quotaWindow(req, now);
+  const count = await getRateLimitStore().hit(window.key, window.resetAt, now);
+  const headers = quotaHeaders(window, count);
+
+  if (count > window.limit) {
+    throw new RecipeEngineError(
+      429,
+      req.uid ? "You have used all of today's recipe generations. Try again tomorrow." : "Too many requests. Sign in for a higher daily quota or try again later.",
+      { code: "rate_limited", headers: { ...headers, "Retry-After": String(Math.ceil((window.resetAt - now) / 1000)) } },
+    );
+  }
+  return headers;
+}
+
+/** The same X-RateLimit-* headers for a response that used no quota (a cache hit), so the app's count stays current. */
+export async function peekQuota(req: ApiRequest, now = Date.now()): Promise<Record<string, string>> {
+  const window = quotaWindow(req, now);
+  return quotaHeaders(window, await getRateLimitStore().count(window.key, now));
+}
@@ -0,0 +1,78 @@
+// lib/recipe-engine/sanitize.ts
+// Cleans the free text users can send (ingredients, a picked suggestion, refine requests) before
+// it is placed inside the delimited blocks of a prompt (see userData() in prompts.ts).
+
+export const MAX_INGREDIENTS = 30;
+export const MAX_INGREDIENT_LENGTH = 60;
+export const MAX_INSTRUCTION_LENGTH = 500;
+
+// Control characters, zero-width characters and bidi overrides, which can hide text from a reviewer
+const INVISIBLE = /[\u0000-\u001f\u007f-\u009f\u200b-\u200f\u202a-\u202e\u2060-\u2064\u2066-\u2069\ufeff]/g;
+// Characters that could close a prompt delimiter or fake JSON/markup structure
+const STRUCTURAL = /[<>{}[\]`\\]/g;
+
+/** Phrases that try to talk to the model rather than describe food, in English and Arabic. */
+const INSTRUCTION_PATTERNS = [
+  /\b(ignore|disregard|forget|override|bypass)\b.{0,40}\b(instructions?|rules?|prompts?|above|previous|system|constraints?)\b/i,
+  /\b(system|developer)\s+(prompt|message|instructions?)\b/i,
+  /\byou\s+are\s+now\b/i,
+  /\bact\s+as\b/i,
+  /\bpretend\s+(to\s+be|you)\b/i,
+  /\bnew\s+instructions?\b/i,
+  /\b(do\s+not|don'?t|stop)\s+(return|use|output|respond\s+(in|with))\s+json\b/i,
+  /\b(respond|reply|output|answer)\s+(only\s+)?(in|with|as)\s+(plain\s+text|markdown|html|yaml|xml)\b/i,
+  // Role prefixes anywhere, since a breakout such as "</ingredients> system:" is only spaces once markup is stripped
+  /(?<![\p{L}\p{N}])(system|assistant|user|developer)\s*:/iu,
+  /(تجاهل|انس|أهمل|تخط)\S*\s.{0,40}(التعليمات|القواعد|الأوامر|ما سبق|السابقة|النظام)/,
+  /أنت\s+الآن/,
+  /تصرف\s+(ك|مثل)/,
+  /تعليمات\s+جديدة/,
+  /(رسالة|موجه|تعليمات)\s+النظام/,
+  /(?<!\p{L})(ال)?(نظام|مساعد|مستخدم)\s*:/u,
+  /(لا\s+تستخدم|لا\s+تُرجع|لا\s+ترجع|بدون|دون)\s+(صيغة\s+)?json/i,
+  /(أجب|رد|اكتب)\s+(فقط\s+)?(ب|ك)?(نص|النص)\s+(عادي|حر)/,
+];
+
+/**
+ * Normalizes one piece of user text: Unicode NFKC, invisible and structural characters replaced
+ * by spaces, double quotes made single, whitespace collapsed. Length is checked by the caller.
+ */
+export function sanitizeText(value: unknown): string {
+  return String(value ?? "")
+    .normalize("NFKC")
+    .replace(INVISIBLE, " ")
+    .replace(STRUCTURAL, " ")
+    .replace(/"/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function looksLikeInstruction(text: string): boolean {
+  return INSTRUCTION_PATTERNS.some((pattern) => pattern.test(text));
+}
+
+export interface SanitizedIngredients {
+  ingredients: string[];
+  /** Entries removed because they read as instructions to the model. */
+  dropped: string[];
+}
+
+/** Cleans an ingredient list; instruction-like entries and case-insensitive duplicates are removed. */
+export function sanitizeIngredients(values: unknown[]): SanitizedIngredients {
+  const ingredients: string[] = [];
+  const dropped: string[] = [];
+  const seen = new Set<string>();
+  for (const value of values) {
+    const text = sanitizeText(value);
+    if (!text) continue;
+    if (looksLikeInstruction(text)) {
+      dropped.push(text);
+      continue;
+    }
+    const key = text.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    ingredients.push(text);
+  }
+  return { ingredients, dropped };
+}
@@ -0,0 +1,43 @@
+// lib/recipe-engine/scaling.ts
+// Client-side rescaling of a generated recipe when the user changes the number of servings.
+import { canonicalUnit, normalizeIngredient, parseQuantity } from "./ingredients";
+import type { Ingredient, Recipe } from "./types";
+
+/** Units counted in whole things, where "1.37 onions" should read as "1½". */
+const COUNTED_UNITS = new Set(["piece", "clove", "can"]);
+
+export function roundQuantity(quantity: number, unit?: string): number {
+  const canonical = canonicalUnit(unit);
+  if (!unit || (canonical && COUNTED_UNITS.has(canonical))) {
+    return Math.max(0.5, Math.round(quantity * 2) / 2);
+  }
+  if (quantity >= 10) return Math.round(quantity);
+  return Math.round(quantity * 100) / 100;
+}
+
+export function scaleIngredient(ingredient: Ingredient, factor: number): Ingredient {
+  if (ingredient.quantity === undefined || factor === 1) return ingredient;
+  return { ...ingredient, quantity: roundQuantity(ingredient.quantity * factor, ingredient.unit) };
+}
+
+/**
+ * Returns a copy of `recipe` with every quantity multiplied for `servings` people.
+ * Plain-string ingredients from older responses are parsed first, so "نصف كوب" scales too.
+ */
+export function scaleRecipe(recipe: Recipe, servings: number): Recipe {
+  const base = recipe.servings > 0 ? recipe.servings : servings;
+  const factor = servings / base;
+  return {
+    ...recipe,
+    servings,
+    ingredients: recipe.ingredients.map((ing) => scaleIngredient(normalizeIngredient(ing), factor)),
+  };
+}
+
+/** Reads a servings count typed with Western or Arabic-Indic digits ("٦"); undefined if unusable. */
+export function parseServings(text: string): number | undefined {
+  const { quantity } = parseQuantity(text);
+  if (quantity === undefined) return undefined;
+  const servings = Math.round(quantity);
+  return servings >= 1 ? servings : undefined;
+}
@@ -0,0 +1,122 @@
+// lib/recipe-engine/schema.ts
+import { Type, type Schema } from "@google/genai";
+import { MAX_CANDIDATES, MIN_CANDIDATES } from "./prompts";
+import type { LlmTask } from "./providers/types";
+
+export const RECIPE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    recipeName: { type: Type.STRING, description: "Name of the recipe" },
+    origin: { type: Type.STRING, description: "Country or region of origin" },
+    cuisineType: { type: Type.STRING, description: "Middle Eastern or Western Fast Food" },
+    prepTime: { type: Type.STRING, description: "Preparation time" },
+    cookTime: { type: Type.STRING, description: "Cooking time" },
+    difficulty: { type: Type.STRING, description: "Easy, Medium, or Hard" },
+    servings: { type: Type.INTEGER, description: "Number of people the quantities serve" },
+    ingredients: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING, description: "Ingredient name only, in the response language" },
+          quantity: { type: Type.NUMBER, description: "Numeric amount, e.g. 0.5 for half a cup" },
+          unit: { type: Type.STRING, description: "Unit in the response language, e.g. cup, tbsp, g / كوب، ملعقة كبيرة، غرام" },
+          preparation: { type: Type.STRING, description: "Preparation note, e.g. finely chopped" },
+          optional: { type: Type.BOOLEAN, description: "True if the recipe works without it" }
+        },
+        required: ["name"]
+      },
+      description: "List of ingredients with quantities"
+    },
+    instructions: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Step-by-step preparation steps"
+    },
+    chefTips: { type: Type.STRING, description: "Optional tips from the chef" },
+    nutrition: {
+      type: Type.OBJECT,
+      properties: {
+        calories: { type: Type.NUMBER, description: "kcal per serving" },
+        protein: { type: Type.NUMBER, description: "Grams of protein per serving" },
+        carbs: { type: Type.NUMBER, description: "Grams of carbohydrate per serving" },
+        fat: { type: Type.NUMBER, description: "Grams of fat per serving" },
+        fiber: { type: Type.NUMBER, description: "Grams of fiber per serving" },
+        sodium: { type: Type.NUMBER, description: "Milligrams of sodium per serving" }
+      },
+      description: "Your best estimate of the nutrition per serving"
+    },
+    detectedIngredients: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Only for image analysis: list of ingredients detected in the image"
+    }
+  },
+  required: ["recipeName", "origin", "cuisineType", "prepTime", "cookTime", "difficulty", "servings", "ingredients", "instructions"]
+};
+
+export const CANDIDATE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    recipeName: { type: Type.STRING, description: "Name of the dish" },
+    origin: { type: Type.STRING, description: "Country or region of origin" },
+    difficulty: { type: Type.STRING, description: "Easy, Medium, or Hard" },
+    totalTime: { type: Type.STRING, description: "Total preparation and cooking time" },
+    description: { type: Type.STRING, description: "One sentence describing the dish" }
+  },
+  required: ["recipeName", "origin", "difficulty", "totalTime", "description"]
+};
+
+export const SUGGESTIONS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    candidates: {
+      type: Type.ARRAY,
+      minItems: String(MIN_CANDIDATES),
+      maxItems: String(MAX_CANDIDATES),
+      items: CANDIDATE_SCHEMA,
+      description: "Distinct dishes that can be made from the given ingredients"
+    }
+  },
+  required: ["candidates"]
+};
+
+export const DETECTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    ingredients: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING, description: "Ingredient name only, in the response language" },
+          confidence: { type: Type.NUMBER, description: "0 to 1: how sure you are that it is there and correctly named" },
+          image: { type: Type.INTEGER, description: "0-based index of the photo it appears in" },
+          box: {
+            type: Type.OBJECT,
+            properties: {
+              x: { type: Type.NUMBER, description: "Left edge as a fraction of the photo width" },
+              y: { type: Type.NUMBER, description: "Top edge as a fraction of the photo height" },
+              width: { type: Type.NUMBER, description: "Width as a fraction of the photo width" },
+              height: { type: Type.NUMBER, description: "Height as a fraction of the photo height" }
+            },
+            required: ["x", "y", "width", "height"],
+            description: "Where the ingredient is in the photo, if you can locate it"
+          }
+        },
+        required: ["name", "confidence"]
+      },
+      description: "Every food ingredient visible in the photos, each listed once"
+    }
+  },
+  required: ["ingredients"]
+};
+
+const TASK_SCHEMAS: Partial<Record<LlmTask, Schema>> = {
+  suggestions: SUGGESTIONS_SCHEMA,
+  detect: DETECTION_SCHEMA,
+};
+
+export function schemaForTask(task: LlmTask): Schema {
+  return TASK_SCHEMAS[task] ?? RECIPE_SCHEMA;
+}
@@ -0,0 +1,23 @@
+// lib/recipe-engine/sqlite.ts
+// One SQLite database per process, shared by the SQLite-backed stores (rate limits, response cache).
+import type Database from "better-sqlite3";
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+
+const require = createRequire(import.meta.url);
+
+let db: Database.Database | null = null;
+
+/** Opens SQLITE_PATH (default .data/recipe-engine.db; use /tmp/... on serverless hosts). */
+export function getDatabase(): Database.Database {
+  if (!db) {
+    // Required lazily: the native module is only loaded when a SQLite store is actually selected
+    const BetterSqlite3: typeof Database = require("better-sqlite3");
+    const file = process.env.SQLITE_PATH || path.join(".data", "recipe-engine.db");
+    if (file !== ":memory:") fs.mkdirSync(path.dirname(file), { recursive: true });
+    db = new BetterSqlite3(file);
+    db.pragma("journal_mode = WAL");
+  }
+  return db;
+}
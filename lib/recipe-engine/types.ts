@@ -0,0 +1,178 @@
+// lib/recipe-engine/types.ts
+// Shared between the client (App.tsx) and every server variant; keep it free of runtime imports.
+
+export type Language = 'ar' | 'en';
+
+export interface Ingredient {
+  /** Ingredient name in the response language, e.g. "rice" / "أرز". */
+  name: string;
+  quantity?: number;
+  /** Unit as written in the response language ("cup", "كوب"); see canonicalUnit() in ingredients.ts. */
+  unit?: string;
+  /** Preparation note such as "finely chopped" / "مفروم ناعماً". */
+  preparation?: string;
+  optional?: boolean;
+}
+
+export type DietaryRestriction =
+  | 'vegetarian'
+  | 'vegan'
+  | 'gluten-free'
+  | 'nut-free'
+  | 'dairy-free'
+  | 'diabetic-friendly'
+  | 'low-sodium';
+
+export type Allergen = 'nuts' | 'peanuts' | 'dairy' | 'eggs' | 'gluten' | 'fish' | 'shellfish' | 'sesame' | 'soy';
+
+/** Constraints on top of halal, which every recipe is assumed to be. */
+export interface DietaryProfile {
+  restrictions: DietaryRestriction[];
+  allergens: Allergen[];
+}
+
+/** An ingredient the model returned despite the profile; see checkDietaryProfile() in dietary.ts. */
+export interface DietaryWarning {
+  ingredient: string;
+  rule: DietaryRestriction | Allergen | 'halal';
+  /** Dictionary group the ingredient matched, e.g. "dairy" for a vegan rule. */
+  group: string;
+}
+
+/** Per serving; grams except `calories` (kcal) and `sodium` (mg). */
+export interface NutritionFacts {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sodium: number;
+}
+
+export interface Nutrition extends NutritionFacts {
+  /** "table": computed from the local nutrition table; "model": the model's own estimate. */
+  source: 'table' | 'model';
+  estimated: boolean;
+}
+
+export interface Recipe {
+  recipeName: string;
+  origin: string;
+  cuisineType: string;
+  prepTime: string;
+  cookTime: string;
+  difficulty: string;
+  /** Number of people the ingredient quantities are written for. */
+  servings: number;
+  ingredients: Ingredient[];
+  instructions: string[];
+  chefTips?: string;
+  detectedIngredients?: string[];
+  /** Per serving. The model may fill in the facts; the server replaces them (see withNutrition()). */
+  nutrition?: Nutrition;
+  /** Set by the server after generation when ingredients break the requested dietary profile. */
+  dietaryWarnings?: DietaryWarning[];
+}
+
+/** A short dish idea from suggestion mode; expanded into a full Recipe once the user picks it. */
+export interface RecipeCandidate {
+  recipeName: string;
+  origin: string;
+  difficulty: string;
+  /** Total preparation and cooking time, e.g. "45 minutes". */
+  totalTime: string;
+  /** One-line description of the dish. */
+  description: string;
+}
+
+/** Ids from CUISINE_TAXONOMY (cuisines.ts); only `region` is required. */
+export interface CuisineSelection {
+  region: string;
+  country?: string;
+  category?: string;
+}
+
+/**
+ * Sent as `details.refusal` with a 422 "cuisine_not_allowed" error, already in the request's
+ * language, so the app can show it as-is and offer the covered regions instead.
+ */
+export interface CuisineRefusal {
+  /** forbidden: a denied cuisine was asked for; unsupported: not in the taxonomy; off_policy_result: the model kept answering off-policy. */
+  reason: 'forbidden' | 'unsupported' | 'off_policy_result';
+  /** The denied cuisine that was asked for or produced, when one was recognized. */
+  cuisine?: string;
+  title: string;
+  message: string;
+  alternatives: { region: string; label: string }[];
+}
+
+export interface RecipeRequest {
+  ingredients: string[];
+  cuisine: CuisineSelection;
+  language: Language;
+  servings: number;
+  /** When set, the recipe is written for this dish instead of one the model chooses. */
+  candidate?: RecipeCandidate;
+  dietary?: DietaryProfile;
+}
+
+export interface RefineRequest {
+  recipe: Recipe;
+  /** Free-text change request, e.g. "make it spicier" / "بدون ألبان". */
+  instruction: string;
+  language: Language;
+  dietary?: DietaryProfile;
+}
+
+/** One line of a refinement diff; `field` is set for headline fields such as cookTime. */
+export interface RecipeChange {
+  kind: 'added' | 'removed' | 'changed';
+  section: 'ingredient' | 'step' | 'field';
+  field?: string;
+  before?: string;
+  after?: string;
+}
+
+export interface RefineResult {
+  recipe: Recipe;
+  changes: RecipeChange[];
+}
+
+/** A rectangle in fractions (0–1) of the photo's width and height, measured from its top-left corner. */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** One item from detection-only image analysis, for the user to confirm before a recipe is written. */
+export interface DetectedIngredient {
+  name: string;
+  /** 0–1: how sure the model is that the item is there and correctly named. */
+  confidence: number;
+  /** Index of the uploaded photo it was seen in, when the model could tell. */
+  image?: number;
+  box?: BoundingBox;
+}
+
+export interface DetectionRequest {
+  images: { data: string; mimeType: string }[];
+  language: Language;
+}
+
+/**
+ * "ingredients": the photos show raw ingredients to cook with (the default).
+ * "dish": they show a finished plate, which is identified and turned into a recipe.
+ */
+export type ImageMode = 'ingredients' | 'dish';
+
+export interface ImageRecipeRequest {
+  /** One or more photos of the same kitchen, or of the same plate in "dish" mode. */
+  images: { data: string; mimeType: string }[];
+  mode?: ImageMode;
+  cuisine: CuisineSelection;
+  language: Language;
+  servings: number;
+  dietary?: DietaryProfile;
+}
@@ -0,0 +1,85 @@
+// lib/recipe-engine/units.ts
+// Metric / imperial rendering of generated recipes. Pure functions, used by App.tsx.
+import { canonicalUnit } from "./ingredients";
+import type { Ingredient, Language, Recipe } from "./types";
+
+export type UnitSystem = "metric" | "imperial";
+
+interface UnitInfo {
+  kind: "volume" | "mass";
+  /** Size in millilitres (volume) or grams (mass). */
+  base: number;
+}
+
+/**
+ * Conversion table keyed by canonical unit (see UNIT_ALIASES). Middle Eastern kitchen measures
+ * use their usual household sizes: a كأس is a drinking glass, a فنجان a coffee cup and the
+ * Levantine أوقية is 200 g (not the 28 g ounce, which is أونصة).
+ */
+export const UNIT_TABLE: Record<string, UnitInfo> = {
+  ml: { kind: "volume", base: 1 },
+  l: { kind: "volume", base: 1000 },
+  tsp: { kind: "volume", base: 5 },
+  tbsp: { kind: "volume", base: 15 },
+  cup: { kind: "volume", base: 240 },
+  glass: { kind: "volume", base: 250 },
+  coffee_cup: { kind: "volume", base: 90 },
+  fl_oz: { kind: "volume", base: 29.57 },
+  g: { kind: "mass", base: 1 },
+  kg: { kind: "mass", base: 1000 },
+  oz: { kind: "mass", base: 28.35 },
+  lb: { kind: "mass", base: 453.6 },
+  ouqiya: { kind: "mass", base: 200 },
+};
+
+const UNIT_LABELS: Record<string, Record<Language, string>> = {
+  ml: { en: "ml", ar: "مل" },
+  l: { en: "l", ar: "لتر" },
+  tsp: { en: "tsp", ar: "ملعقة صغيرة" },
+  tbsp: { en: "tbsp", ar: "ملعقة كبيرة" },
+  cup: { en: "cup", ar: "كوب" },
+  g: { en: "g", ar: "غرام" },
+  kg: { en: "kg", ar: "كغ" },
+  oz: { en: "oz", ar: "أونصة" },
+  lb: { en: "lb", ar: "رطل" },
+};
+
+/** Spoon measures read the same in both systems, so they are never converted. */
+const UNIVERSAL_UNITS = new Set(["tsp", "tbsp"]);
+
+function roundTo(value: number, step: number): number {
+  return Math.max(step, Math.round(value / step) * step);
+}
+
+function toMetric({ kind, base }: UnitInfo, amount: number): { quantity: number; unit: string } {
+  const total = base * amount;
+  if (kind === "mass") {
+    return total >= 1000 ? { quantity: roundTo(total / 1000, 0.05), unit: "kg" } : { quantity: roundTo(total, total < 20 ? 1 : 5), unit: "g" };
+  }
+  return total >= 1000 ? { quantity: roundTo(total / 1000, 0.05), unit: "l" } : { quantity: roundTo(total, total < 20 ? 1 : 5), unit: "ml" };
+}
+
+function toImperial({ kind, base }: UnitInfo, amount: number): { quantity: number; unit: string } {
+  const total = base * amount;
+  if (kind === "mass") {
+    const ounces = total / UNIT_TABLE.oz.base;
+    return ounces >= 16 ? { quantity: roundTo(ounces / 16, 0.25), unit: "lb" } : { quantity: roundTo(ounces, 0.5), unit: "oz" };
+  }
+  if (total >= UNIT_TABLE.cup.base / 4) return { quantity: roundTo(total / UNIT_TABLE.cup.base, 0.25), unit: "cup" };
+  if (total >= UNIT_TABLE.tbsp.base) return { quantity: roundTo(total / UNIT_TABLE.tbsp.base, 0.5), unit: "tbsp" };
+  return { quantity: roundTo(total / UNIT_TABLE.tsp.base, 0.25), unit: "tsp" };
+}
+
+/** Converts one ingredient; unknown units, counts and spoon measures are returned unchanged. */
+export function convertIngredient(ingredient: Ingredient, system: UnitSystem, language: Language): Ingredient {
+  const canonical = canonicalUnit(ingredient.unit);
+  const info = canonical ? UNIT_TABLE[canonical] : undefined;
+  if (!info || ingredient.quantity === undefined || UNIVERSAL_UNITS.has(canonical!)) return ingredient;
+
+  const converted = system === "metric" ? toMetric(info, ingredient.quantity) : toImperial(info, ingredient.quantity);
+  return { ...ingredient, quantity: converted.quantity, unit: UNIT_LABELS[converted.unit][language] };
+}
+
+export function convertRecipe(recipe: Recipe, system: UnitSystem, language: Language): Recipe {
+  return { ...recipe, ingredients: recipe.ingredients.map((ing) => convertIngredient(ing, system, language)) };
+}
@@ -0,0 +1,162 @@
+// lib/recipe-engine/validation.ts
+// Runtime check of model output against RECIPE_SCHEMA, so the validator can never drift from what we ask Gemini for.
+import { Type, type Schema } from "@google/genai";
+import { ingredientKey, normalizeIngredient } from "./ingredients";
+import { MAX_CANDIDATES, MIN_CANDIDATES } from "./prompts";
+import { DETECTION_SCHEMA, RECIPE_SCHEMA, SUGGESTIONS_SCHEMA } from "./schema";
+import type { BoundingBox, DetectedIngredient, Recipe, RecipeCandidate } from "./types";
+
+/** `value` is only set when `issues` is empty. */
+export interface ValidationResult<T> {
+  value?: T;
+  issues: string[];
+}
+
+/**
+ * Parses model output, tolerating the ```json fences some responses still carry.
+ * Returns undefined when the text is not JSON at all.
+ */
+export function parseModelJson(text: string): unknown {
+  for (const candidate of [text, text.replace(/```json\s*|\s*```/g, "").trim()]) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // try the next candidate
+    }
+  }
+  return undefined;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Checks `value` against a Gemini schema, applying small lossless repairs on the way
+ * (numbers where strings are expected, a single string where a list is expected).
+ * Required fields must also be non-empty: an empty ingredient list is as useless as a missing one.
+ */
+export function checkSchema(schema: Schema, value: unknown, path: string, issues: string[]): unknown {
+  switch (schema.type) {
+    case Type.STRING:
+      if (typeof value === "number") return String(value);
+      if (typeof value !== "string") issues.push(`${path}: expected string`);
+      else if (schema.enum && !schema.enum.includes(value)) issues.push(`${path}: expected one of ${schema.enum.join(", ")}`);
+      return value;
+
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      const num = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      if (typeof num !== "number" || Number.isNaN(num)) issues.push(`${path}: expected number`);
+      return num;
+    }
+
+    case Type.BOOLEAN:
+      if (typeof value !== "boolean") issues.push(`${path}: expected boolean`);
+      return value;
+
+    case Type.ARRAY: {
+      const list = typeof value === "string" && schema.items?.type === Type.STRING ? [value] : value;
+      if (!Array.isArray(list)) {
+        issues.push(`${path}: expected array`);
+        return value;
+      }
+      return schema.items ? list.map((item, i) => checkSchema(schema.items!, item, `${path}[${i}]`, issues)) : list;
+    }
+
+    case Type.OBJECT: {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        issues.push(`${path || "response"}: expected object`);
+        return value;
+      }
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = { ...input };
+      const prefix = path ? `${path}.` : "";
+      for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+        const required = schema.required?.includes(key);
+        if (input[key] === undefined || input[key] === null || (required && isEmpty(input[key]))) {
+          if (required) issues.push(`${prefix}${key}: missing`);
+          delete output[key];
+          continue;
+        }
+        output[key] = checkSchema(propSchema, input[key], `${prefix}${key}`, issues);
+      }
+      return output;
+    }
+
+    default:
+      return value;
+  }
+}
+
+export function validateRecipe(value: unknown): ValidationResult<Recipe> {
+  const issues: string[] = [];
+  const ingredients = (value as Partial<Recipe> | null)?.ingredients;
+  if (Array.isArray(ingredients)) {
+    // Plain "2 cups rice" strings are still accepted and parsed into structured ingredients
+    value = { ...(value as object), ingredients: ingredients.map((item) => (typeof item === "string" ? normalizeIngredient(item) : item)) };
+  }
+  const repaired = checkSchema(RECIPE_SCHEMA, value, "", issues);
+  return issues.length ? { issues } : { value: repaired as Recipe, issues };
+}
+
+/** Parses and validates raw model text in one step. */
+export function validateRecipeJson(text: string): ValidationResult<Recipe> {
+  const parsed = parseModelJson(text);
+  if (parsed === undefined) return { issues: ["response is not valid JSON"] };
+  return validateRecipe(parsed);
+}
+
+/** Candidates beyond MAX_CANDIDATES are dropped; fewer than MIN_CANDIDATES is an issue. */
+export function validateSuggestions(value: unknown): ValidationResult<RecipeCandidate[]> {
+  const issues: string[] = [];
+  const repaired = checkSchema(SUGGESTIONS_SCHEMA, value, "", issues) as { candidates?: RecipeCandidate[] };
+  if (!issues.length && repaired.candidates!.length < MIN_CANDIDATES) {
+    issues.push(`candidates: expected at least ${MIN_CANDIDATES} dishes`);
+  }
+  return issues.length ? { issues } : { value: repaired.candidates!.slice(0, MAX_CANDIDATES), issues };
+}
+
+export function validateSuggestionsJson(text: string): ValidationResult<RecipeCandidate[]> {
+  const parsed = parseModelJson(text);
+  if (parsed === undefined) return { issues: ["response is not valid JSON"] };
+  return validateSuggestions(parsed);
+}
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+function validBox(box: BoundingBox | undefined): BoundingBox | undefined {
+  if (!box || [box.x, box.y, box.width, box.height].some((n) => n < 0 || n > 1) || !box.width || !box.height) return undefined;
+  return box;
+}
+
+/**
+ * Confidence is clamped to 0–1 and out-of-range boxes are dropped rather than reported; an item
+ * the model listed twice keeps its most confident entry. Sorted most confident first.
+ */
+export function validateDetection(value: unknown): ValidationResult<DetectedIngredient[]> {
+  const issues: string[] = [];
+  const repaired = checkSchema(DETECTION_SCHEMA, value, "", issues) as { ingredients?: DetectedIngredient[] };
+  if (issues.length) return { issues };
+
+  const byKey = new Map<string, DetectedIngredient>();
+  for (const item of repaired.ingredients!) {
+    const name = item.name.trim();
+    if (!name) continue;
+    const detected: DetectedIngredient = { name, confidence: clamp01(item.confidence) };
+    if (item.image !== undefined && item.image >= 0) detected.image = item.image;
+    const box = validBox(item.box);
+    if (box) detected.box = box;
+
+    const key = ingredientKey(name);
+    const existing = byKey.get(key);
+    if (!existing || existing.confidence < detected.confidence) byKey.set(key, detected);
+  }
+  return { value: [...byKey.values()].sort((a, b) => b.confidence - a.confidence), issues };
+}
+
+export function validateDetectionJson(text: string): ValidationResult<DetectedIngredient[]> {
+  const parsed = parseModelJson(text);
+  if (parsed === undefined) return { issues: ["response is not valid JSON"] };
+  return validateDetection(parsed);
+}
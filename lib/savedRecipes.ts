@@ -0,0 +1,97 @@
+// lib/savedRecipes.ts
+// "My Recipes": each signed-in user's saved recipes live under users/{uid}/recipes in Firestore.
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  serverTimestamp,
+  updateDoc,
+  type Timestamp,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import type { Language, Recipe } from './recipe-engine/types';
+
+export interface SavedRecipeInput {
+  recipe: Recipe;
+  /** Ingredients the user typed, or those detected in the photo. */
+  sourceIngredients: string[];
+  cuisineType: string;
+  language: Language;
+  /** Small JPEG data URL of the analysed photo, if there was one. */
+  thumbnail?: string | null;
+}
+
+export interface SavedRecipe extends SavedRecipeInput {
+  id: string;
+  title: string;
+  createdAt: Date | null;
+}
+
+function recipesCollection(uid: string) {
+  return collection(db, 'users', uid, 'recipes');
+}
+
+/** Firestore rejects `undefined` values, so optional recipe fields are dropped before writing. */
+function withoutUndefined<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+export async function saveRecipe(uid: string, input: SavedRecipeInput): Promise<string> {
+  const ref = await addDoc(recipesCollection(uid), {
+    title: input.recipe.recipeName,
+    recipe: withoutUndefined(input.recipe),
+    sourceIngredients: input.sourceIngredients,
+    cuisineType: input.cuisineType,
+    language: input.language,
+    thumbnail: input.thumbnail ?? null,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  return ref.id;
+}
+
+export async function listSavedRecipes(uid: string): Promise<SavedRecipe[]> {
+  const snapshot = await getDocs(query(recipesCollection(uid), orderBy('createdAt', 'desc')));
+  return snapshot.docs.map((d) => {
+    const data = d.data();
+    return {
+      id: d.id,
+      title: data.title,
+      recipe: data.recipe,
+      sourceIngredients: data.sourceIngredients ?? [],
+      cuisineType: data.cuisineType,
+      language: data.language,
+      thumbnail: data.thumbnail ?? null,
+      createdAt: (data.createdAt as Timestamp | null)?.toDate() ?? null,
+    };
+  });
+}
+
+export async function renameSavedRecipe(uid: string, id: string, title: string): Promise<void> {
+  await updateDoc(doc(recipesCollection(uid), id), { title, updatedAt: serverTimestamp() });
+}
+
+export async function deleteSavedRecipe(uid: string, id: string): Promise<void> {
+  await deleteDoc(doc(recipesCollection(uid), id));
+}
+
+/** Shrinks a data URL to a thumbnail small enough to store inline in the Firestore document. */
+export function createThumbnail(dataUrl: string, maxEdge = 240): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, maxEdge / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    img.onerror = reject;
+    img.src = dataUrl;
+  });
+}
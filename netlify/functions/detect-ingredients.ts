@@ -0,0 +1,4 @@
+import { createNetlifyHandler } from "../../lib/adapters/netlify";
+import { detectIngredientsEndpoint } from "../../lib/recipe-engine";
+
+export const handler = createNetlifyHandler("detect-ingredients", detectIngredientsEndpoint);
@@ -0,0 +1,4 @@
+import { createNetlifyHandler } from "../../lib/adapters/netlify";
+import { refineRecipeEndpoint } from "../../lib/recipe-engine";
+
+export const handler = createNetlifyHandler("refine-recipe", refineRecipeEndpoint);
@@ -1,133 +1,15 @@
 import express from "express";
 import { createServer as createViteServer } from "vite";
-import multer from "multer";
-import cors from "cors";
-import { GoogleGenAI, Type } from "@google/genai";
 import dotenv from "dotenv";
+import { createApiRouter } from "./lib/adapters/express";
 
 dotenv.config();
 
 const app = express();
 const PORT = 3000;
 
-// Setup Multer for memory storage
-const storage = multer.memoryStorage();
-const upload = multer({ limits: { fileSize: 10 * 1024 * 1024 } }); // 10MB limit
-
-app.use(cors());
-app.use(express.json());
-
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
-
-const SYSTEM_INSTRUCTION = `
-You are a professional chef specializing ONLY in Middle Eastern and Western Fast Food.
-STRICT RULES:
-1. ONLY provide recipes from these cuisines:
-   - Middle Eastern: Syrian, Lebanese, Iraqi, Palestinian, Egyptian, Jordanian, Saudi, Yemeni, Gulf.
-   - Western Fast Food: Burgers, Pizza, Crispy Chicken, Pasta, Sandwiches.
-2. ABSOLUTELY FORBIDDEN: Any Asian cuisines (Korean, Japanese, Chinese, Thai, Vietnamese, etc.), Turkish cuisine, or any other cuisine not mentioned above.
-3. If the user asks for a forbidden cuisine, politely refuse and explain that you only specialize in Middle Eastern and Western Fast Food.
-4. Use few-shot learning examples for quality:
-   - Maqluba (Palestine/Syria/Lebanon): Rice with chicken/meat, eggplant, cauliflower.
-   - Kibbeh (Syria/Lebanon/Iraq): Bulgur balls stuffed with meat and pine nuts.
-   - Freekeh (Syria/Palestine/Jordan): Green wheat with meat/chicken.
-   - Mandi (Yemen/Saudi): Rice with smoked meat/chicken.
-   - Kabsa (Saudi/Gulf): Long rice with meat/chicken and spices.
-5. Always respond in the language requested (Arabic or English).
-6. Output MUST be in valid JSON format.
-`;
-
-const RECIPE_SCHEMA = {
-  type: Type.OBJECT,
-  properties: {
-    recipeName: { type: Type.STRING, description: "Name of the recipe" },
-    origin: { type: Type.STRING, description: "Country or region of origin" },
-    cuisineType: { type: Type.STRING, description: "Middle Eastern or Western Fast Food" },
-    prepTime: { type: Type.STRING, description: "Preparation time" },
-    cookTime: { type: Type.STRING, description: "Cooking time" },
-    difficulty: { type: Type.STRING, description: "Easy, Medium, or Hard" },
-    ingredients: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-      description: "List of ingredients with quantities"
-    },
-    instructions: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-      description: "Step-by-step preparation steps"
-    },
-    chefTips: { type: Type.STRING, description: "Optional tips from the chef" },
-    detectedIngredients: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-      description: "Only for image analysis: list of ingredients detected in the image"
-    }
-  },
-  required: ["recipeName", "origin", "cuisineType", "prepTime", "cookTime", "difficulty", "ingredients", "instructions"]
-};
-
-app.post("/api/generate-recipe", async (req, res) => {
-  try {
-    const { ingredients, cuisineType, language } = req.body;
-    
-    const prompt = `Generate a ${cuisineType} recipe using these ingredients: ${ingredients.join(", ")}. 
-    The response must be in ${language === 'ar' ? 'Arabic' : 'English'}.`;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        responseMimeType: "application/json",
-        responseSchema: RECIPE_SCHEMA,
-      },
-    });
-
-    res.json(JSON.parse(response.text || "{}"));
-  } catch (error: any) {
-    console.error("Error generating recipe:", error);
-    res.status(500).json({ error: error.message });
-  }
-});
-
-app.post("/api/analyze-image", upload.single("image"), async (req: any, res) => {
-  try {
-    if (!req.file) {
-      return res.status(400).json({ error: "No image uploaded" });
-    }
-
-    const { language, cuisineType } = req.body;
-    const base64Image = req.file.buffer.toString("base64");
-
-    const prompt = `Analyze this image to detect food ingredients. 
-    Then, generate a ${cuisineType || 'Middle Eastern'} recipe using these detected ingredients.
-    The response must be in ${language === 'ar' ? 'Arabic' : 'English'}.
-    Include the detected ingredients in the 'detectedIngredients' field.`;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: [
-        { text: prompt },
-        {
-          inlineData: {
-            mimeType: req.file.mimetype,
-            data: base64Image,
-          },
-        },
-      ],
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        responseMimeType: "application/json",
-        responseSchema: RECIPE_SCHEMA,
-      },
-    });
-
-    res.json(JSON.parse(response.text || "{}"));
-  } catch (error: any) {
-    console.error("Error analyzing image:", error);
-    res.status(500).json({ error: error.message });
-  }
-});
+// Same recipe engine as the Vercel (api/) and Netlify (netlify/functions) deployments
+app.use("/api", createApiRouter());
 
 async function startServer() {
   if (process.env.NODE_ENV !== "production") {
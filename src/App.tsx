@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import {
   Camera,
   Upload,
@@ -13,41 +13,91 @@ import {
   Loader2,
   UtensilsCrossed,
   Image as ImageIcon,
-  Trash2
+  Trash2,
+  Users,
+  Minus,
+  Scale,
+  Bookmark,
+  BookmarkCheck,
+  RefreshCw,
+  Sparkles
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
+import type { CuisineRefusal, CuisineSelection, DetectedIngredient, DietaryProfile, ImageMode, Language, Recipe, RecipeCandidate } from '@/lib/recipe-engine/types';
+import { formatIngredient, mergeIngredientNames } from '@/lib/recipe-engine/ingredients';
+import { parseServings, scaleRecipe } from '@/lib/recipe-engine/scaling';
+import { DEFAULT_SERVINGS, MAX_IMAGES, MAX_SERVINGS } from '@/lib/recipe-engine/prompts';
+import { convertRecipe, type UnitSystem } from '@/lib/recipe-engine/units';
+import { EMPTY_DIETARY_PROFILE } from '@/lib/recipe-engine/dietary';
+import { MAX_INGREDIENT_LENGTH, MAX_INGREDIENTS } from '@/lib/recipe-engine/sanitize';
+import { CUISINE_TAXONOMY, DEFAULT_CUISINE, cuisineLabel, findRegion } from '@/lib/recipe-engine/cuisines';
+import { loadDietaryProfile, saveDietaryProfile } from '@/lib/dietaryProfile';
+import { createThumbnail, saveRecipe, type SavedRecipe, type SavedRecipeInput } from '@/lib/savedRecipes';
+import {
+  QUEUE_ID_HEADER,
+  deleteQueuedRecipe,
+  getOfflineRecipe,
+  listOfflineRecipes,
+  listQueuedRecipes,
+  rememberRecipe,
+  saveQueuedRecipe,
+  type OfflineMessage,
+  type OfflineRecipe,
+  type QueuedRecipe,
+  type RecipeContext,
+} from '@/lib/offlineRecipes';
+import { auth } from '@/lib/firebase';
+import { ApiError, STREAM_ACCEPT, authHeaders, cuisineRefusalOf, isEventStream, readRecipeStream } from '@/lib/apiClient';
+import { MyRecipes } from '@/components/MyRecipes';
+import { RefineChat } from '@/components/RefineChat';
+import { CuisineRefusalCard } from '@/components/CuisineRefusalCard';
+import { IngredientReview } from '@/components/IngredientReview';
+import { CameraCapture, isCameraSupported } from '@/components/CameraCapture';
+import { OfflineRecipes } from '@/components/OfflineRecipes';
+import { DietaryPreferences, DietaryWarnings } from '@/components/DietaryPreferences';
+import { LoginModal } from '@/components/Login';
+import { RequireAuth, useAuth } from '@/components/AuthProvider';
+import { UserMenu } from '@/components/UserMenu';
 
-type Language = 'ar' | 'en';
-
-interface Recipe {
-  recipeName: string;
-  origin: string;
-  cuisineType: string;
-  prepTime: string;
-  cookTime: string;
-  difficulty: string;
-  ingredients: string[];
-  instructions: string[];
-  chefTips?: string;
-  detectedIngredients?: string[];
-}
+const MY_RECIPES_ROUTE = '#/my-recipes';
 
 const translations = {
   ar: {
     title: '🧑‍🍳 مطبخ الشرق والغرب',
     subtitle: 'توليد وصفات ذكية باستخدام الذكاء الاصطناعي',
     warning: '⛔ ممنوع: كوري، تركي، صيني، ياباني، آسيوي',
-    imageSection: 'تحليل الصور (المكونات)',
-    imagePlaceholder: 'اسحب الصورة هنا أو انقر للتصوير/الاختيار',
-    analyzeBtn: 'تحليل الصورة وتوليد وصفة',
+    imageSection: 'تحليل الصور',
+    modeIngredients: 'مكونات',
+    modeDish: 'طبق جاهز',
+    imagePlaceholder: 'اسحب الصور هنا أو انقر للتصوير/الاختيار (الثلاجة، المؤونة...)',
+    dishPlaceholder: 'صوّر طبقاً جاهزاً (منسف، شاورما، برغر...) لنتعرف عليه',
+    identifyBtn: 'تعرّف على الطبق واحصل على وصفته',
+    addMoreImages: 'أضف صورة',
+    removeImage: 'إزالة الصورة',
+    tooManyImages: (max: number) => `يمكن رفع ${max} صور كحد أقصى`,
+    takePhoto: 'التقط صورة بالكاميرا',
+    analyzeBtn: 'اكتشف المكونات في الصور',
     or: 'أو',
     textSection: 'الإدخال النصي للمكونات',
     cuisineLabel: 'نوع المطبخ المفضل:',
-    middleEastern: 'شرق أوسطي',
-    westernFast: 'غربي سريع',
+    servingsLabel: 'عدد الأشخاص:',
+    servesLabel: 'الحصص:',
+    metric: 'متري',
+    imperial: 'إمبراطوري',
+    save: 'حفظ',
+    saved: 'تم الحفظ',
+    signInToSave: 'سجّل الدخول لحفظ الوصفة',
+    regenerate: 'وصفة أخرى',
+    quotaToday: (n: number) => `متبقٍ لك اليوم ${n} من عمليات التوليد`,
+    quotaHour: (n: number) => `متبقٍ ${n} من عمليات التوليد هذه الساعة — سجّل الدخول للحصول على المزيد`,
+    countryLabel: 'البلد:',
+    categoryLabel: 'نوع الطبق:',
+    anyOption: 'أي',
     ingredientPlaceholder: 'أضف مكوناً (مثلاً: دجاج، أرز...)',
     addBtn: 'إضافة',
     generateBtn: 'توليد وصفة ذكية',
+    suggestBtn: 'اقترح عدة أطباق',
+    candidatesTitle: 'اختر طبقاً لعرض وصفته الكاملة:',
     detectedTitle: 'المكونات المكتشفة في الصورة:',
     recipeTitle: 'الوصفة المقترحة',
     originLabel: 'المنشأ:',
@@ -57,29 +107,58 @@ const translations = {
     ingredientsLabel: 'المكونات:',
     instructionsLabel: 'خطوات التحضير:',
     tipsLabel: 'نصائح الشيف:',
+    nutritionLabel: 'القيم الغذائية للحصة:',
+    nutritionTable: 'محسوبة من المكونات',
+    nutritionEstimated: 'تقدير تقريبي من الذكاء الاصطناعي',
+    nutrients: { calories: 'سعرات', protein: 'بروتين', carbs: 'كربوهيدرات', fat: 'دهون', fiber: 'ألياف', sodium: 'صوديوم' },
+    grams: 'غ',
+    milligrams: 'ملغ',
     footerNote: 'هذا التطبيق مخصص فقط للمطابخ الشرق أوسطية والغربية السريعة.',
     author: 'المهندس محمد سعيد قاروط',
     portfolio: 'معرض أعمالي',
     contactWhatsApp: 'واتساب',
     errorTitle: 'عذراً، حدث خطأ',
     noIngredients: 'يرجى إضافة مكونات أولاً',
+    tooManyIngredients: (max: number) => `يمكن إضافة ${max} مكوناً كحد أقصى`,
     noImage: 'يرجى اختيار صورة أولاً',
+    offlineError: 'أنت غير متصل بالإنترنت. يتطلب هذا الإجراء اتصالاً.',
   },
   en: {
     title: '🧑‍🍳 East & West Kitchen',
     subtitle: 'Smart AI-Powered Recipe Generator',
     warning: '⛔ Forbidden: Korean, Turkish, Chinese, Japanese, Asian',
-    imageSection: 'Image Analysis (Ingredients)',
-    imagePlaceholder: 'Drag image here or click to capture/select',
-    analyzeBtn: 'Analyze Image & Generate Recipe',
+    imageSection: 'Image Analysis',
+    modeIngredients: 'Ingredients',
+    modeDish: 'Finished dish',
+    imagePlaceholder: 'Drag photos here or click to capture/select (fridge, pantry...)',
+    dishPlaceholder: 'Snap a finished plate (mansaf, shawarma, a burger...) to identify it',
+    identifyBtn: 'Identify Dish & Get Its Recipe',
+    addMoreImages: 'Add photo',
+    removeImage: 'Remove photo',
+    tooManyImages: (max: number) => `You can upload at most ${max} photos`,
+    takePhoto: 'Take a photo with the camera',
+    analyzeBtn: 'Detect Ingredients in Photos',
     or: 'OR',
     textSection: 'Text Ingredient Input',
     cuisineLabel: 'Preferred Cuisine:',
-    middleEastern: 'Middle Eastern',
-    westernFast: 'Western Fast Food',
+    servingsLabel: 'Servings:',
+    servesLabel: 'Serves:',
+    metric: 'Metric',
+    imperial: 'Imperial',
+    save: 'Save',
+    saved: 'Saved',
+    signInToSave: 'Sign in to save this recipe',
+    regenerate: 'Regenerate',
+    quotaToday: (n: number) => `${n} generations left today`,
+    quotaHour: (n: number) => `${n} generations left this hour — sign in for more`,
+    countryLabel: 'Country:',
+    categoryLabel: 'Dish type:',
+    anyOption: 'Any',
     ingredientPlaceholder: 'Add ingredient (e.g., chicken, rice...)',
     addBtn: 'Add',
     generateBtn: 'Generate Smart Recipe',
+    suggestBtn: 'Suggest a few dishes',
+    candidatesTitle: 'Pick a dish to see its full recipe:',
     detectedTitle: 'Ingredients Detected in Image:',
     recipeTitle: 'Suggested Recipe',
     originLabel: 'Origin:',
@@ -89,37 +168,335 @@ const translations = {
     ingredientsLabel: 'Ingredients:',
     instructionsLabel: 'Instructions:',
     tipsLabel: 'Chef\'s Tips:',
+    nutritionLabel: 'Nutrition per serving:',
+    nutritionTable: 'Calculated from the ingredients',
+    nutritionEstimated: 'Estimated by AI',
+    nutrients: { calories: 'Calories', protein: 'Protein', carbs: 'Carbs', fat: 'Fat', fiber: 'Fiber', sodium: 'Sodium' },
+    grams: 'g',
+    milligrams: 'mg',
     footerNote: 'This app is strictly for Middle Eastern and Western Fast Food cuisines.',
     author: 'Engineer Mhd Saeed Karout',
     portfolio: 'My Portfolio',
     contactWhatsApp: 'WhatsApp',
     errorTitle: 'Sorry, an error occurred',
     noIngredients: 'Please add ingredients first',
+    tooManyIngredients: (max: number) => `You can add at most ${max} ingredients`,
     noImage: 'Please select an image first',
+    offlineError: 'You are offline. This needs a connection.',
   }
 };
 
 export default function App() {
   const [lang, setLang] = useState<Language>('ar');
-  const [cuisine, setCuisine] = useState('Middle Eastern');
+  const [cuisine, setCuisine] = useState<CuisineSelection>(DEFAULT_CUISINE);
   const [ingredients, setIngredients] = useState<string[]>([]);
   const [currentInput, setCurrentInput] = useState('');
-  const [image, setImage] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  // Several photos of the same kitchen can be analyzed together; `preview` is a data URL
+  const [images, setImages] = useState<{ file: File; preview: string }[]>([]);
+  const [imageMode, setImageMode] = useState<ImageMode>('ingredients');
   const [loading, setLoading] = useState(false);
   const [recipe, setRecipe] = useState<Recipe | null>(null);
+  // Suggestion mode: short dish ideas, and the one currently expanded into `recipe`
+  const [candidates, setCandidates] = useState<RecipeCandidate[] | null>(null);
+  // Ingredients found in the photos, awaiting the user's review before anything is generated
+  const [detected, setDetected] = useState<DetectedIngredient[] | null>(null);
+  const [activeCandidate, setActiveCandidate] = useState<RecipeCandidate | null>(null);
+  const [servingsInput, setServingsInput] = useState(String(DEFAULT_SERVINGS));
+  // Servings the user is currently viewing; the recipe is rescaled client-side from recipe.servings
+  const [displayServings, setDisplayServings] = useState<number | null>(null);
+  const { user, initializing } = useAuth();
+  const [loginOpen, setLoginOpen] = useState(false);
+  const [route, setRoute] = useState(() => window.location.hash);
+  // What the current recipe was generated from, stored alongside it when saved
+  const [recipeSource, setRecipeSource] = useState<Omit<SavedRecipeInput, 'recipe'> | null>(null);
+  const [savedId, setSavedId] = useState<string | null>(null);
+  // Bumped whenever a different recipe is shown, so the refinement chat starts over
+  const [conversationId, setConversationId] = useState(0);
+  const [quota, setQuota] = useState<{ remaining: number; scope: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [dietary, setDietary] = useState<DietaryProfile>(EMPTY_DIETARY_PROFILE);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(
+    () => (localStorage.getItem('unitSystem') === 'imperial' ? 'imperial' : 'metric')
+  );
   const [error, setError] = useState<string | null>(null);
+  // A policy refusal from the server replaces the generic error box with its own card
+  const [refusal, setRefusal] = useState<CuisineRefusal | null>(null);
+  // Offline mode: requests waiting in the service worker's queue (src/sw.ts) and recipes kept on this device
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [queuedRecipes, setQueuedRecipes] = useState<QueuedRecipe[]>([]);
+  const [offlineRecipes, setOfflineRecipes] = useState<OfflineRecipe[]>([]);
+  const [readyRecipe, setReadyRecipe] = useState<OfflineRecipe | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [cameraOpen, setCameraOpen] = useState(false);
   const t = translations[lang];
   const isRtl = lang === 'ar';
+  const requestedServings = Math.min(parseServings(servingsInput) ?? DEFAULT_SERVINGS, MAX_SERVINGS);
+
+  const cuisineRegion = findRegion(cuisine.region) ?? CUISINE_TAXONOMY[0];
+
+  const scaledRecipe = useMemo(() => {
+    if (!recipe) return null;
+    const scaled = displayServings ? scaleRecipe(recipe, displayServings) : recipe;
+    return convertRecipe(scaled, unitSystem, lang);
+  }, [recipe, displayServings, unitSystem, lang]);
+
+  /** Remembers the X-RateLimit-* headers of the last API call so the remaining quota can be shown. */
+  const trackQuota = (response: Response) => {
+    const remaining = response.headers.get('X-RateLimit-Remaining');
+    if (remaining !== null) {
+      setQuota({ remaining: Number(remaining), scope: response.headers.get('X-RateLimit-Scope') || 'user-day' });
+    }
+  };
+
+  const refreshOffline = () =>
+    Promise.all([listQueuedRecipes(), listOfflineRecipes()])
+      .then(([queued, recent]) => {
+        setQueuedRecipes(queued);
+        setOfflineRecipes(recent);
+      })
+      .catch(err => console.warn('Could not read offline recipes:', err));
+
+  const showRecipe = (data: Recipe, source: RecipeContext) => {
+    setRecipe(data);
+    setDisplayServings(data.servings || requestedServings);
+    setRecipeSource(source);
+    setSavedId(null);
+    setConversationId(id => id + 1);
+    // Every generated recipe stays readable offline
+    rememberRecipe({ id: crypto.randomUUID(), recipe: data, ...source, createdAt: Date.now() })
+      .then(refreshOffline)
+      .catch(err => console.warn('Could not keep recipe for offline reading:', err));
+  };
+
+  /** A refinement replaces the recipe but keeps its source, servings and chat history. */
+  const applyRefinement = (refined: Recipe) => {
+    setRecipe(refined);
+    setSavedId(null);
+  };
+
+  const clearError = () => {
+    setError(null);
+    setRefusal(null);
+  };
+
+  const showError = (err: any) => {
+    const cuisineRefusal = cuisineRefusalOf(err);
+    if (cuisineRefusal) setRefusal(cuisineRefusal);
+    else if (err instanceof TypeError && !navigator.onLine) setError(t.offlineError);
+    else setError(err.message || String(err));
+  };
+
+  /** A failed recipe request also takes down whatever it streamed, so no truncated recipe is left on screen. */
+  const showRecipeError = (err: any) => {
+    setRecipe(null);
+    showError(err);
+  };
+
+  const pickRefusalAlternative = (selection: CuisineSelection) => {
+    setCuisine(selection);
+    setRefusal(null);
+  };
+
+  /** Run on every API response: a 401 opens the sign-in dialog, and the quota headers are kept. */
+  const handleApiResponse = (response: Response) => {
+    if (response.status === 401) setLoginOpen(true);
+    trackQuota(response);
+  };
+
+  /** Renders a recipe that is still streaming in; incomplete ingredients are held back until named. */
+  const showPartialRecipe = (partial: Partial<Recipe>) => {
+    setRecipe({
+      ...partial,
+      ingredients: (partial.ingredients ?? []).filter(ing => ing?.name),
+      instructions: partial.instructions ?? [],
+      // The model's raw nutrition estimate is replaced server-side; wait for the final recipe
+      nutrition: undefined,
+    } as Recipe);
+    setDisplayServings(null);
+    // Saving and refining wait for the final recipe; showRecipe sets the source again
+    setRecipeSource(null);
+  };
+
+  /** Reads either a streamed (SSE) or a plain JSON recipe response, surfacing API errors. */
+  const readRecipeResponse = async (response: Response): Promise<Recipe> => {
+    if (isEventStream(response)) return readRecipeStream(response, showPartialRecipe);
+    const data = await response.json();
+    if (data.error) throw new ApiError(data);
+    return data;
+  };
+
+  /** Marks a recipe request the service worker may hold on to while the network is down. */
+  const queueHeaders = () => ({ [QUEUE_ID_HEADER]: crypto.randomUUID() });
+
+  /**
+   * True when the service worker answered 202 because the request was queued offline. What the
+   * request was made from is stored with it, so the finished recipe can be saved like any other.
+   */
+  const handleQueued = async (response: Response, context: RecipeContext): Promise<boolean> => {
+    if (response.status !== 202) return false;
+    const { id } = await response.json();
+    await saveQueuedRecipe({ ...context, id, queuedAt: Date.now(), status: 'pending' });
+    await refreshOffline();
+    if ('Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission().catch(() => {});
+    }
+    return true;
+  };
+
+  const openOfflineRecipe = (entry: OfflineRecipe) => {
+    setRecipe(entry.recipe);
+    setDisplayServings(entry.recipe.servings);
+    setRecipeSource({
+      sourceIngredients: entry.sourceIngredients,
+      cuisineType: entry.cuisineType,
+      language: entry.language,
+      thumbnail: entry.thumbnail,
+    });
+    setSavedId(null);
+    setConversationId(id => id + 1);
+    setCandidates(null);
+    setActiveCandidate(null);
+    setReadyRecipe(ready => (ready?.id === entry.id ? null : ready));
+    clearError();
+  };
+
+  /** Forgets a queued request, and has the service worker drop it so it is not sent later anyway. */
+  const dismissQueued = (id: string) => {
+    deleteQueuedRecipe(id)
+      .then(refreshOffline)
+      .catch(err => console.warn('Could not remove queued recipe:', err));
+    if ('serviceWorker' in navigator) {
+      const message: OfflineMessage = { type: 'discard-queued', id };
+      navigator.serviceWorker.ready
+        .then(registration => registration.active?.postMessage(message))
+        .catch(err => console.warn('Could not discard queued recipe:', err));
+    }
+  };
+
+  const handleSaveRecipe = async () => {
+    if (!user) {
+      setLoginOpen(true);
+      return;
+    }
+    if (!recipe || !recipeSource) return;
+    setSaving(true);
+    try {
+      const id = await saveRecipe(user.uid, { recipe, ...recipeSource });
+      setSavedId(id);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openSavedRecipe = (saved: SavedRecipe) => {
+    setRecipe(saved.recipe);
+    setDisplayServings(saved.recipe.servings);
+    setRecipeSource({
+      sourceIngredients: saved.sourceIngredients,
+      cuisineType: saved.cuisineType,
+      language: saved.language,
+      thumbnail: saved.thumbnail,
+    });
+    setSavedId(saved.id);
+    setConversationId(id => id + 1);
+    setCandidates(null);
+    setActiveCandidate(null);
+    clearError();
+    navigate('');
+  };
 
   useEffect(() => {
     document.documentElement.dir = isRtl ? 'rtl' : 'ltr';
     document.documentElement.lang = lang;
   }, [lang, isRtl]);
 
+  useEffect(() => {
+    localStorage.setItem('unitSystem', unitSystem);
+  }, [unitSystem]);
+
+  useEffect(() => {
+    refreshOffline();
+    // Opened from a "recipe ready" notification while the app was closed
+    const params = new URLSearchParams(window.location.search);
+    const id = params.get('recipe');
+    if (id) {
+      history.replaceState(null, '', window.location.pathname + window.location.hash);
+      getOfflineRecipe(id).then(entry => entry && openOfflineRecipe(entry));
+    }
+
+    const updateOnline = () => setOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    const onMessage = (event: MessageEvent<OfflineMessage>) => {
+      const message = event.data;
+      if (message?.type === 'queued-recipe-ready') {
+        getOfflineRecipe(message.id).then(entry => entry && setReadyRecipe(entry));
+        refreshOffline();
+      } else if (message?.type === 'queued-recipe-failed') {
+        refreshOffline();
+      } else if (message?.type === 'open-recipe') {
+        getOfflineRecipe(message.id).then(entry => entry && openOfflineRecipe(entry));
+      }
+    };
+    navigator.serviceWorker.addEventListener('message', onMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+  }, []);
+
+  // Queued requests carry the ID token they were made with, which may have expired; whenever the
+  // app is online with a settled session, the service worker gets a fresh one and retries
+  useEffect(() => {
+    if (!online || initializing || !('serviceWorker' in navigator)) return;
+    (async () => {
+      const { Authorization } = await authHeaders();
+      const registration = await navigator.serviceWorker.ready;
+      const message: OfflineMessage = { type: 'replay-queue', authorization: Authorization ?? null };
+      registration.active?.postMessage(message);
+    })().catch(err => console.warn('Could not replay queued recipes:', err));
+  }, [online, initializing, user?.uid]);
+
+  // The profile follows the account: reload it whenever the signed-in user changes
+  useEffect(() => {
+    loadDietaryProfile(user?.uid ?? null)
+      .then(setDietary)
+      .catch(err => console.warn('Could not load dietary profile:', err));
+  }, [user?.uid]);
+
+  const handleDietaryChange = (profile: DietaryProfile) => {
+    setDietary(profile);
+    saveDietaryProfile(user?.uid ?? null, profile).catch(err => console.warn('Could not save dietary profile:', err));
+  };
+
+  useEffect(() => {
+    const onHashChange = () => setRoute(window.location.hash);
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  const navigate = (hash: string) => {
+    if (hash) {
+      window.location.hash = hash;
+    } else {
+      history.pushState(null, '', window.location.pathname + window.location.search);
+      setRoute('');
+    }
+  };
+
   const handleAddIngredient = () => {
+    if (ingredients.length >= MAX_INGREDIENTS) {
+      setError(t.tooManyIngredients(MAX_INGREDIENTS));
+      return;
+    }
     if (currentInput.trim()) {
       setIngredients([...ingredients, currentInput.trim()]);
       setCurrentInput('');
@@ -130,24 +507,53 @@ export default function App() {
     setIngredients(ingredients.filter((_, i) => i !== index));
   };
 
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setImage(file);
+  const readPreview = (file: File): Promise<string> =>
+    new Promise((resolve, reject) => {
       const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
       reader.readAsDataURL(file);
-      setRecipe(null);
-      setError(null);
-    }
+    });
+
+  /** Shared by the file picker and the in-app camera. */
+  const addImageFiles = async (files: File[]) => {
+    if (!files.length) return;
+    setRecipe(null);
+    setError(null);
+    const room = MAX_IMAGES - images.length;
+    if (files.length > room) setError(t.tooManyImages(MAX_IMAGES));
+    const added = await Promise.all(
+      files.slice(0, Math.max(room, 0)).map(async file => ({ file, preview: await readPreview(file) }))
+    );
+    setImages(prev => [...prev, ...added].slice(0, MAX_IMAGES));
+    setDetected(null);
+  };
+
+  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Reset so picking the same photo again still fires onChange
+    e.target.value = '';
+    addImageFiles(files);
+  };
+
+  const openCamera = () => {
+    if (isCameraSupported()) setCameraOpen(true);
+    else fileInputRef.current?.click();
   };
 
-  /** Resize/compress image in browser to avoid mobile upload size limits (e.g. Netlify 6MB). */
+  const removeImage = (index: number) => {
+    setImages(prev => prev.filter((_, i) => i !== index));
+    setDetected(null);
+  };
+
+  /**
+   * Resize/compress image in browser to avoid mobile upload size limits (e.g. Netlify 6MB).
+   * Formats the browser cannot draw (HEIC outside Safari) are sent as-is; the server converts them.
+   */
   const compressImageForUpload = (file: File, maxEdge = 600, targetSize = 800_000): Promise<File> => {
     return new Promise((resolve) => {
       const img = new Image();
+      img.onerror = () => resolve(file);
       img.onload = () => {
         let w = img.width, h = img.height;
         if (w > maxEdge || h > maxEdge) {
@@ -176,95 +582,204 @@ export default function App() {
     });
   };
 
-  const handleGenerateText = async () => {
+  /**
+   * `regenerate` asks the server to skip its cache and produce a fresh recipe;
+   * `candidate` expands a dish picked from the suggestions instead of letting the model choose;
+   * `from` and `thumbnail` are set when the ingredients were just confirmed from photos.
+   */
+  const handleGenerateText = async ({
+    regenerate = false,
+    candidate,
+    from = ingredients,
+    thumbnail,
+  }: { regenerate?: boolean; candidate?: RecipeCandidate; from?: string[]; thumbnail?: string | null } = {}) => {
+    if (from.length === 0) {
+      setError(t.noIngredients);
+      return;
+    }
+    setLoading(true);
+    clearError();
+    setRecipe(null);
+    setActiveCandidate(candidate ?? null);
+    if (!candidate) setCandidates(null);
+    const source = { sourceIngredients: from, cuisineType: cuisineLabel(cuisine, lang), language: lang, thumbnail };
+    try {
+      const response = await fetch('/api/generate-recipe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: STREAM_ACCEPT, ...queueHeaders(), ...(await authHeaders()) },
+        body: JSON.stringify({ ingredients: from, cuisine, language: lang, servings: requestedServings, regenerate, candidate, dietary }),
+      });
+      if (await handleQueued(response, source)) return;
+      handleApiResponse(response);
+      const data = await readRecipeResponse(response);
+      showRecipe(data, source);
+    } catch (err: any) {
+      showRecipeError(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSuggest = async () => {
     if (ingredients.length === 0) {
       setError(t.noIngredients);
       return;
     }
     setLoading(true);
-    setError(null);
+    clearError();
     setRecipe(null);
+    setCandidates(null);
+    setActiveCandidate(null);
     try {
       const response = await fetch('/api/generate-recipe', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ ingredients, cuisineType: cuisine, language: lang }),
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+        body: JSON.stringify({ ingredients, cuisine, language: lang, mode: 'suggest', dietary }),
       });
+      handleApiResponse(response);
       const data = await response.json();
-      if (data.error) throw new Error(data.error);
-      setRecipe(data);
+      if (data.error) throw new ApiError(data);
+      setCandidates(data.candidates);
     } catch (err: any) {
-      setError(err.message);
+      showError(err);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleAnalyzeImage = async () => {
-    if (!image) {
+  /** Compresses the selected photos and posts them with `fields`; a failed upload becomes an error. */
+  const postImages = async (
+    url: string,
+    fields: Record<string, string>,
+    accept = 'application/json',
+    headers: Record<string, string> = {},
+  ): Promise<Response> => {
+    // ~800 KB each keeps the maximum of 4 photos under Vercel's ~4.5MB request limit
+    const compressed = await Promise.all(images.map(({ file }) => compressImageForUpload(file, 600, 800000)));
+
+    const formData = new FormData();
+    compressed.forEach((file, i) => formData.append("images", file, `image-${i + 1}.jpg`));
+    for (const [name, value] of Object.entries(fields)) formData.append(name, value);
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { Accept: accept, ...headers, ...(await authHeaders()) },
+      body: formData,
+    });
+
+    handleApiResponse(response);
+
+    if (!response.ok) {
+      const rawText = await response.text();
+      let errMsg = response.statusText;
+      if (rawText.includes("413") || rawText.includes("Payload Too Large")) {
+        errMsg = lang === "ar"
+          ? "حجم الصورة تجاوز الحد المسموح (Vercel ≈4.5MB)"
+          : "Image size exceeds Vercel limit (~4.5MB)";
+      } else if (rawText.trim().startsWith("<")) {
+        errMsg = lang === "ar" ? "خطأ خادم (HTML)" : "Server error (HTML response)";
+      } else {
+        let errJson: any;
+        try {
+          errJson = JSON.parse(rawText);
+        } catch {}
+        if (errJson?.error) throw new ApiError(errJson);
+      }
+      throw new Error(errMsg);
+    }
+    return response;
+  };
+
+  /** Reports a missing or oversized photo; true when the selection can be uploaded. */
+  const checkImages = (): boolean => {
+    if (!images.length) {
       setError(t.noImage);
-      return;
+      return false;
     }
   
     // تحذير حجم قبل الضغط
-    if (image.size > 4 * 1024 * 1024) {  // 4 MB
+    if (images.some(({ file }) => file.size > 4 * 1024 * 1024)) {  // 4 MB
       setError(
         lang === 'ar'
           ? 'حجم الصورة كبير جدًا (أكبر من 4 ميجابايت). التقط صورة أصغر أو اضغطها أولاً.'
           : 'Image too large (>4MB). Take smaller photo or compress it first.'
       );
-      return;
+      return false;
     }
-  
+    return true;
+  };
+
+  /** Step one of the photo flow: find the ingredients and open the review list. */
+  const handleDetectIngredients = async () => {
+    // The review step needs a connection; offline, the photos go to one-step analysis, which can be queued
+    if (!navigator.onLine) return handleAnalyzeImages('ingredients');
+    if (!checkImages()) return;
     setLoading(true);
-    setError(null);
+    clearError();
+    setDetected(null);
   
     try {
-      const compressed = await compressImageForUpload(image, 600, 800000);
-  
-      const formData = new FormData();
-      formData.append("image", compressed, "image.jpg");
-      formData.append("language", lang);
-      formData.append("cuisineType", cuisine);
-  
-      const response = await fetch("/api/analyze-image", {
-        method: "POST",
-        body: formData,
+      const response = await postImages("/api/detect-ingredients", { language: lang });
+      const data = await response.json();
+      setDetected(data.ingredients);
+    } catch (err) {
+      showError(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Detects and generates in one request. Dish mode: the photos show a finished plate, which the
+   * server names and writes a recipe for. Ingredients mode is only used here while offline.
+   */
+  const handleAnalyzeImages = async (mode: ImageMode) => {
+    if (!checkImages()) return;
+    setLoading(true);
+    clearError();
+    setRecipe(null);
+    setCandidates(null);
+    setActiveCandidate(null);
+
+    try {
+      const thumbnail = await createThumbnail(images[0].preview).catch(() => null);
+      const response = await postImages("/api/analyze-image", {
+        mode,
+        ...(mode === "ingredients" && { cuisine: JSON.stringify(cuisine) }),
+        language: lang,
+        servings: String(requestedServings),
+        dietary: JSON.stringify(dietary),
+      }, STREAM_ACCEPT, queueHeaders());
+      const queuedContext = {
+        sourceIngredients: [],
+        cuisineType: mode === "dish" ? "" : cuisineLabel(cuisine, lang),
+        language: lang,
+        thumbnail,
+      };
+      if (await handleQueued(response, queuedContext)) return;
+      const data = await readRecipeResponse(response);
+      showRecipe(data, {
+        sourceIngredients: mode === "dish" ? [] : data.detectedIngredients ?? [],
+        cuisineType: data.cuisineType,
+        language: lang,
+        thumbnail,
       });
-  
-      const rawText = await response.text();
-  
-      if (!response.ok) {
-        let errMsg = response.statusText;
-        if (rawText.includes("413") || rawText.includes("Payload Too Large")) {
-          errMsg = lang === "ar"
-            ? "حجم الصورة تجاوز الحد المسموح (Vercel ≈4.5MB)"
-            : "Image size exceeds Vercel limit (~4.5MB)";
-        } else if (rawText.trim().startsWith("<")) {
-          errMsg = lang === "ar" ? "خطأ خادم (HTML)" : "Server error (HTML response)";
-        } else {
-          try {
-            const errJson = JSON.parse(rawText);
-            errMsg = errJson.error || errMsg;
-          } catch {}
-        }
-        throw new Error(errMsg);
-      }
-  
-      const data = JSON.parse(rawText);
-      if (data.error) throw new Error(data.error);
-  
-      setRecipe(data);
-      if (data.detectedIngredients?.length) {
-        setIngredients(prev => [...new Set([...prev, ...data.detectedIngredients])]);
-      }
     } catch (err) {
-      setError(err.message || String(err));
+      showRecipeError(err);
     } finally {
       setLoading(false);
     }
   };
 
+  /** Step two: only the ingredients the user kept or corrected are used for the recipe. */
+  const handleConfirmDetected = async (confirmed: string[]) => {
+    const next = mergeIngredientNames(ingredients, confirmed).slice(0, MAX_INGREDIENTS);
+    setIngredients(next);
+    setDetected(null);
+    const thumbnail = await createThumbnail(images[0].preview).catch(() => null);
+    await handleGenerateText({ from: next, thumbnail });
+  };
+
   return (
     <div className="min-min-h-screen bg-gradient-to-br from-[#667eea] to-[#f093fb] text-slate-900 font-sans selection:bg-pink-200">
       {/* Animated Background Elements */}
@@ -275,7 +790,14 @@ export default function App() {
 
       <div className="relative z-10 max-w-4xl mx-auto px-4 py-8 md:py-12">
         {/* Header */}
-        <header className="text-center mb-12">
+        <header className="relative text-center mb-12">
+          <div className="absolute top-0 end-0 z-30">
+            <UserMenu
+              lang={lang}
+              onSignIn={() => setLoginOpen(true)}
+              onOpenMyRecipes={() => navigate(MY_RECIPES_ROUTE)}
+            />
+          </div>
           <motion.div
             initial={{ y: -20, opacity: 0 }}
             animate={{ y: 0, opacity: 1 }}
@@ -297,8 +819,8 @@ export default function App() {
           </div>
         </header>
 
-        {/* Language Switcher */}
-        <div className="flex justify-center mb-8">
+        {/* Language & Unit Switchers */}
+        <div className="flex flex-wrap justify-center gap-3 mb-8">
           <div className="bg-white/20 backdrop-blur-md p-1 rounded-xl border border-white/30 flex gap-1">
             <button
               onClick={() => setLang('ar')}
@@ -315,9 +837,34 @@ export default function App() {
               English
             </button>
           </div>
+          <div className="bg-white/20 backdrop-blur-md p-1 rounded-xl border border-white/30 flex gap-1">
+            {(['metric', 'imperial'] as const).map((system) => (
+              <button
+                key={system}
+                onClick={() => setUnitSystem(system)}
+                className={`px-4 py-2 rounded-lg transition-all flex items-center gap-2 ${unitSystem === system ? 'bg-white text-indigo-600 shadow-sm' : 'text-white hover:bg-white/10'}`}
+              >
+                {system === 'metric' && <Scale className="w-4 h-4" />}
+                {t[system]}
+              </button>
+            ))}
+          </div>
         </div>
 
         <main className="space-y-8">
+          <OfflineRecipes
+            lang={lang}
+            online={online}
+            queued={queuedRecipes}
+            recent={offlineRecipes}
+            ready={readyRecipe}
+            onOpen={openOfflineRecipe}
+            onDismissQueued={dismissQueued}
+            onDismissReady={() => setReadyRecipe(null)}
+          />
+
+          <DietaryPreferences profile={dietary} onChange={handleDietaryChange} lang={lang} />
+
           {/* Image Upload Section */}
           <section className="bg-white/30 backdrop-blur-xl rounded-3xl p-6 md:p-8 border border-white/40 shadow-2xl">
             <h2 className="text-xl font-bold text-white mb-6 flex items-center gap-2">
@@ -325,43 +872,102 @@ export default function App() {
               {t.imageSection}
             </h2>
 
+            <div className="flex gap-2 mb-4" role="tablist">
+              {(['ingredients', 'dish'] as ImageMode[]).map(mode => (
+                <button
+                  key={mode}
+                  role="tab"
+                  aria-selected={imageMode === mode}
+                  onClick={() => { setImageMode(mode); setDetected(null); }}
+                  className={`flex-1 py-2 rounded-xl text-sm font-bold transition-colors ${
+                    imageMode === mode ? 'bg-white text-indigo-600' : 'bg-white/10 text-white border border-white/30 hover:bg-white/20'
+                  }`}
+                >
+                  {mode === 'dish' ? t.modeDish : t.modeIngredients}
+                </button>
+              ))}
+            </div>
+
             <div
-              onClick={() => fileInputRef.current?.click()}
-              className={`relative border-2 border-dashed rounded-2xl p-8 text-center cursor-pointer transition-all hover:bg-white/10 ${imagePreview ? 'border-white/60' : 'border-white/40'}`}
+              onClick={() => images.length < MAX_IMAGES && fileInputRef.current?.click()}
+              className={`relative border-2 border-dashed rounded-2xl p-8 text-center cursor-pointer transition-all hover:bg-white/10 ${images.length ? 'border-white/60' : 'border-white/40'}`}
             >
               <input
                 type="file"
                 ref={fileInputRef}
                 onChange={handleImageChange}
                 accept="image/*"
+                multiple
                 className="hidden"
               />
 
-              {imagePreview ? (
-                <div className="relative group">
-                  <img src={imagePreview} alt="Preview" className="max-h-64 mx-auto rounded-xl shadow-lg" />
-                  <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity rounded-xl flex items-center justify-center">
-                    <Camera className="w-10 h-10 text-white" />
-                  </div>
+              {images.length ? (
+                <div className="grid grid-cols-2 gap-3">
+                  {images.map(({ preview }, i) => (
+                    <div key={preview} className="relative">
+                      <img src={preview} alt={`Preview ${i + 1}`} className="h-32 w-full object-cover rounded-xl shadow-lg" />
+                      <button
+                        onClick={(e) => { e.stopPropagation(); removeImage(i); }}
+                        aria-label={t.removeImage}
+                        className="absolute top-2 end-2 bg-black/50 hover:bg-black/70 text-white rounded-full p-1"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  {images.length < MAX_IMAGES && (
+                    <div className="h-32 rounded-xl border-2 border-dashed border-white/40 flex flex-col items-center justify-center gap-1 text-white/80 text-sm">
+                      <Camera className="w-8 h-8" />
+                      {t.addMoreImages}
+                    </div>
+                  )}
                 </div>
               ) : (
                 <div className="space-y-4">
                   <div className="w-16 h-16 bg-white/20 rounded-full flex items-center justify-center mx-auto">
                     <Upload className="w-8 h-8 text-white" />
                   </div>
-                  <p className="text-white font-medium">{t.imagePlaceholder}</p>
+                  <p className="text-white font-medium">{imageMode === 'dish' ? t.dishPlaceholder : t.imagePlaceholder}</p>
                 </div>
               )}
             </div>
 
             <button
-              onClick={handleAnalyzeImage}
-              disabled={loading || !image}
+              onClick={openCamera}
+              disabled={images.length >= MAX_IMAGES}
+              className="w-full mt-4 py-3 bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white border border-white/30 rounded-2xl font-bold flex items-center justify-center gap-2 transition-colors"
+            >
+              <Camera className="w-5 h-5" />
+              {t.takePhoto}
+            </button>
+
+            <CameraCapture
+              isOpen={cameraOpen}
+              lang={lang}
+              onCapture={(file) => addImageFiles([file])}
+              onClose={() => setCameraOpen(false)}
+              onFallback={() => fileInputRef.current?.click()}
+            />
+
+            <button
+              onClick={imageMode === 'dish' ? () => handleAnalyzeImages('dish') : handleDetectIngredients}
+              disabled={loading || !images.length}
               className="w-full mt-6 py-4 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white rounded-2xl font-bold text-lg shadow-lg transition-all flex items-center justify-center gap-2 active:scale-95"
             >
               {loading ? <Loader2 className="w-6 h-6 animate-spin" /> : <UtensilsCrossed className="w-6 h-6" />}
-              {t.analyzeBtn}
+              {imageMode === 'dish' ? t.identifyBtn : t.analyzeBtn}
             </button>
+
+            {detected && (
+              <IngredientReview
+                detected={detected}
+                previews={images.map(({ preview }) => preview)}
+                lang={lang}
+                busy={loading}
+                onConfirm={handleConfirmDetected}
+                onCancel={() => setDetected(null)}
+              />
+            )}
           </section>
 
           {/* Divider */}
@@ -382,15 +988,56 @@ export default function App() {
               <div>
                 <label className="block text-white font-medium mb-2">{t.cuisineLabel}</label>
                 <select
-                  value={cuisine}
-                  onChange={(e) => setCuisine(e.target.value)}
+                  value={cuisine.region}
+                  onChange={(e) => setCuisine({ region: e.target.value })}
                   className="w-full bg-white/20 backdrop-blur-md border border-white/30 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-white/50"
                 >
-                  <option value="Middle Eastern" className="text-slate-900">{t.middleEastern}</option>
-                  <option value="Western Fast Food" className="text-slate-900">{t.westernFast}</option>
+                  {CUISINE_TAXONOMY.map((region) => (
+                    <option key={region.id} value={region.id} className="text-slate-900">{region.label[lang]}</option>
+                  ))}
                 </select>
               </div>
 
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-white font-medium mb-2">{t.countryLabel}</label>
+                  <select
+                    value={cuisine.country ?? ''}
+                    onChange={(e) => setCuisine({ ...cuisine, country: e.target.value || undefined })}
+                    className="w-full bg-white/20 backdrop-blur-md border border-white/30 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-white/50"
+                  >
+                    <option value="" className="text-slate-900">{t.anyOption}</option>
+                    {cuisineRegion.countries.map((country) => (
+                      <option key={country.id} value={country.id} className="text-slate-900">{country.label[lang]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-white font-medium mb-2">{t.categoryLabel}</label>
+                  <select
+                    value={cuisine.category ?? ''}
+                    onChange={(e) => setCuisine({ ...cuisine, category: e.target.value || undefined })}
+                    className="w-full bg-white/20 backdrop-blur-md border border-white/30 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-white/50"
+                  >
+                    <option value="" className="text-slate-900">{t.anyOption}</option>
+                    {cuisineRegion.categories.map((category) => (
+                      <option key={category.id} value={category.id} className="text-slate-900">{category.label[lang]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-white font-medium mb-2">{t.servingsLabel}</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={servingsInput}
+                  onChange={(e) => setServingsInput(e.target.value)}
+                  className="w-full bg-white/20 backdrop-blur-md border border-white/30 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-white/50"
+                />
+              </div>
+
               <div className="flex gap-2">
                 <input
                   type="text"
@@ -398,6 +1045,7 @@ export default function App() {
                   onChange={(e) => setCurrentInput(e.target.value)}
                   onKeyPress={(e) => e.key === 'Enter' && handleAddIngredient()}
                   placeholder={t.ingredientPlaceholder}
+                  maxLength={MAX_INGREDIENT_LENGTH}
                   className="flex-1 bg-white/20 backdrop-blur-md border border-white/30 rounded-xl px-4 py-3 text-white placeholder:text-white/60 focus:outline-none focus:ring-2 focus:ring-white/50"
                 />
                 <button
@@ -428,20 +1076,38 @@ export default function App() {
               </div>
 
               <button
-                onClick={handleGenerateText}
+                onClick={() => handleGenerateText()}
                 disabled={loading || ingredients.length === 0}
                 className="w-full py-4 bg-pink-500 hover:bg-pink-600 disabled:bg-pink-400 text-white rounded-2xl font-bold text-lg shadow-lg transition-all flex items-center justify-center gap-2 active:scale-95"
               >
                 {loading ? <Loader2 className="w-6 h-6 animate-spin" /> : <ChefHat className="w-6 h-6" />}
                 {t.generateBtn}
               </button>
+              <button
+                onClick={handleSuggest}
+                disabled={loading || ingredients.length === 0}
+                className="w-full py-3 bg-white/20 hover:bg-white/30 disabled:opacity-60 border border-white/30 text-white rounded-2xl font-bold shadow-lg transition-all flex items-center justify-center gap-2 active:scale-95"
+              >
+                <Sparkles className="w-5 h-5" />
+                {t.suggestBtn}
+              </button>
             </div>
           </section>
 
+          {quota && (
+            <p className="text-center text-white/80 text-sm">
+              {quota.scope === 'user-day' ? t.quotaToday(quota.remaining) : t.quotaHour(quota.remaining)}
+            </p>
+          )}
+
           {/* Error Message */}
           <AnimatePresence>
+            {refusal && (
+              <CuisineRefusalCard key="refusal" refusal={refusal} lang={lang} onPick={pickRefusalAlternative} />
+            )}
             {error && (
               <motion.div
+                key="error"
                 initial={{ opacity: 0, y: 10 }}
                 animate={{ opacity: 1, y: 0 }}
                 exit={{ opacity: 0, y: 10 }}
@@ -456,6 +1122,46 @@ export default function App() {
             )}
           </AnimatePresence>
 
+          {/* Suggested dishes */}
+          <AnimatePresence>
+            {candidates && candidates.length > 0 && (
+              <motion.section
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: 10 }}
+                className="space-y-4"
+              >
+                <h2 className="text-white font-bold text-lg">{t.candidatesTitle}</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {candidates.map((candidate, i) => (
+                    <button
+                      key={i}
+                      onClick={() => handleGenerateText({ candidate })}
+                      disabled={loading}
+                      className={`text-start bg-white rounded-3xl p-5 shadow-xl text-slate-800 transition-all hover:-translate-y-1 disabled:opacity-70 ${
+                        activeCandidate?.recipeName === candidate.recipeName ? 'ring-4 ring-pink-400' : ''
+                      }`}
+                    >
+                      <h3 className="font-black text-indigo-900 text-lg mb-1">{candidate.recipeName}</h3>
+                      <p className="text-sm text-slate-600 mb-3">{candidate.description}</p>
+                      <div className="flex flex-wrap gap-2 text-xs font-bold">
+                        <span className="px-2 py-1 bg-pink-100 text-pink-700 rounded-full">{candidate.origin}</span>
+                        <span className="px-2 py-1 bg-slate-100 text-slate-600 rounded-full inline-flex items-center gap-1">
+                          <Flame className="w-3 h-3 text-orange-500" />
+                          {candidate.difficulty}
+                        </span>
+                        <span className="px-2 py-1 bg-slate-100 text-slate-600 rounded-full inline-flex items-center gap-1">
+                          <Clock className="w-3 h-3" />
+                          {candidate.totalTime}
+                        </span>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </motion.section>
+            )}
+          </AnimatePresence>
+
           {/* Recipe Result */}
           <AnimatePresence>
             {recipe && (
@@ -480,6 +1186,10 @@ export default function App() {
                   </div>
                 )}
 
+                {recipe.dietaryWarnings && recipe.dietaryWarnings.length > 0 && (
+                  <DietaryWarnings warnings={recipe.dietaryWarnings} lang={lang} />
+                )}
+
                 <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
                   <div>
                     <h2 className="text-3xl md:text-4xl font-black text-indigo-900 mb-2">{recipe.recipeName}</h2>
@@ -491,6 +1201,24 @@ export default function App() {
                         {t.originLabel} {recipe.origin}
                       </span>
                     </div>
+                    <button
+                      onClick={handleSaveRecipe}
+                      disabled={saving || !!savedId || !recipeSource}
+                      className="mt-4 px-4 py-2 rounded-xl font-bold text-sm inline-flex items-center gap-2 transition-all bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-slate-200 disabled:text-slate-500"
+                    >
+                      {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : savedId ? <BookmarkCheck className="w-4 h-4" /> : <Bookmark className="w-4 h-4" />}
+                      {savedId ? t.saved : user ? t.save : t.signInToSave}
+                    </button>
+                    {ingredients.length > 0 && (
+                      <button
+                        onClick={() => handleGenerateText({ regenerate: true, candidate: activeCandidate ?? undefined })}
+                        disabled={loading}
+                        className="mt-4 ms-2 px-4 py-2 rounded-xl font-bold text-sm inline-flex items-center gap-2 transition-all bg-slate-100 text-indigo-700 hover:bg-slate-200"
+                      >
+                        <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                        {t.regenerate}
+                      </button>
+                    )}
                   </div>
                   <div className="flex gap-4">
                     <div className="text-center">
@@ -500,6 +1228,25 @@ export default function App() {
                       <p className="text-[10px] uppercase tracking-wider font-bold text-slate-400">{t.difficultyLabel}</p>
                       <p className="font-bold text-slate-700">{recipe.difficulty}</p>
                     </div>
+                    <div className="text-center">
+                      <div className="h-12 bg-slate-100 rounded-2xl flex items-center justify-center gap-1 px-1 mx-auto mb-1">
+                        <button
+                          onClick={() => setDisplayServings(Math.max(1, (displayServings ?? 1) - 1))}
+                          className="w-8 h-8 rounded-xl hover:bg-slate-200 flex items-center justify-center"
+                        >
+                          <Minus className="w-4 h-4 text-indigo-600" />
+                        </button>
+                        <Users className="w-5 h-5 text-indigo-500" />
+                        <button
+                          onClick={() => setDisplayServings(Math.min(MAX_SERVINGS, (displayServings ?? 0) + 1))}
+                          className="w-8 h-8 rounded-xl hover:bg-slate-200 flex items-center justify-center"
+                        >
+                          <Plus className="w-4 h-4 text-indigo-600" />
+                        </button>
+                      </div>
+                      <p className="text-[10px] uppercase tracking-wider font-bold text-slate-400">{t.servesLabel}</p>
+                      <p className="font-bold text-slate-700">{scaledRecipe.servings}</p>
+                    </div>
                   </div>
                 </div>
 
@@ -526,13 +1273,33 @@ export default function App() {
                       {t.ingredientsLabel}
                     </h3>
                     <ul className="space-y-4">
-                      {recipe.ingredients.map((ing, i) => (
+                      {scaledRecipe.ingredients.map((ing, i) => (
                         <li key={i} className="flex items-start gap-3">
                           <div className="w-2 h-2 rounded-full bg-pink-400 mt-2 shrink-0" />
-                          <span className="text-slate-600 font-medium">{ing}</span>
+                          <span className="text-slate-600 font-medium">{formatIngredient(ing, lang)}</span>
                         </li>
                       ))}
                     </ul>
+
+                    {recipe.nutrition && (
+                      <div className="mt-8 p-5 bg-emerald-50 rounded-3xl border border-emerald-100">
+                        <h4 className="text-emerald-900 font-bold mb-1">{t.nutritionLabel}</h4>
+                        <p className={`text-xs mb-4 ${recipe.nutrition.estimated ? 'text-amber-700 font-bold' : 'text-emerald-700'}`}>
+                          {recipe.nutrition.estimated ? `⚠ ${t.nutritionEstimated}` : t.nutritionTable}
+                        </p>
+                        <dl className="grid grid-cols-2 gap-3 text-sm">
+                          {(['calories', 'protein', 'carbs', 'fat', 'fiber', 'sodium'] as const).map((key) => (
+                            <div key={key} className="bg-white rounded-xl px-3 py-2">
+                              <dt className="text-[10px] uppercase tracking-wider font-bold text-slate-400">{t.nutrients[key]}</dt>
+                              <dd className="font-bold text-slate-700">
+                                {recipe.nutrition[key]}
+                                {key === 'calories' ? '' : ` ${key === 'sodium' ? t.milligrams : t.grams}`}
+                              </dd>
+                            </div>
+                          ))}
+                        </dl>
+                      </div>
+                    )}
                   </div>
 
                   <div className="md:col-span-2">
@@ -561,11 +1328,45 @@ export default function App() {
                     )}
                   </div>
                 </div>
+
+                {!loading && recipeSource && (
+                  <RefineChat
+                    key={conversationId}
+                    recipe={recipe}
+                    dietary={dietary}
+                    lang={lang}
+                    onRefined={applyRefinement}
+                    onResponse={handleApiResponse}
+                    onPickCuisine={pickRefusalAlternative}
+                  />
+                )}
               </motion.section>
             )}
           </AnimatePresence>
         </main>
 
+        {route === MY_RECIPES_ROUTE && (
+          <RequireAuth onUnauthenticated={() => setLoginOpen(true)}>
+            <MyRecipes
+              isOpen
+              onClose={() => navigate('')}
+              onOpen={openSavedRecipe}
+              uid={user?.uid}
+              lang={lang}
+            />
+          </RequireAuth>
+        )}
+
+        <LoginModal
+          isOpen={loginOpen}
+          onClose={() => {
+            setLoginOpen(false);
+            // Leaving a members-only route without signing in returns to the home view
+            if (!auth.currentUser && route === MY_RECIPES_ROUTE) navigate('');
+          }}
+          lang={lang}
+        />
+
         <footer className="mt-16 text-center text-white/60 text-sm space-y-3 pb-8">
           <p>{t.footerNote}</p>
           <p className="flex flex-wrap items-center justify-center gap-x-4 gap-y-1">
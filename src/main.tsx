@@ -2,9 +2,11 @@ import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
-import UnderConstruction from '@/components/UnderConstruction';
+import { AuthProvider } from '@/components/AuthProvider';
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <UnderConstruction />
+    <AuthProvider>
+      <App />
+    </AuthProvider>
   </StrictMode>,
 );
@@ -0,0 +1,178 @@
+// src/sw.ts
+// Service worker built by vite-plugin-pwa (injectManifest): precaches the app shell, and queues
+// recipe requests made offline with Background Sync, finishing them once the connection is back.
+/// <reference lib="webworker" />
+import { clientsClaim } from 'workbox-core';
+import { cleanupOutdatedCaches, createHandlerBoundToURL, precacheAndRoute } from 'workbox-precaching';
+import { NavigationRoute, registerRoute } from 'workbox-routing';
+import { Queue } from 'workbox-background-sync';
+import {
+  QUEUE_ID_HEADER,
+  QUEUE_RETENTION_MINUTES,
+  deleteQueuedRecipe,
+  getQueuedRecipe,
+  rememberRecipe,
+  saveQueuedRecipe,
+  type OfflineMessage,
+} from '../lib/offlineRecipes';
+
+declare let self: ServiceWorkerGlobalScope;
+
+/** Recipe endpoints whose requests can wait; suggestions, refinements and detection need the user present. */
+const QUEUEABLE_PATHS = ['/api/generate-recipe', '/api/analyze-image'];
+
+const NOTIFICATION_TEXT = {
+  ar: { ready: 'وصفتك جاهزة', failed: 'تعذر تحضير وصفتك' },
+  en: { ready: 'Your recipe is ready', failed: 'Your recipe could not be made' },
+};
+
+self.skipWaiting();
+clientsClaim();
+
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+registerRoute(new NavigationRoute(createHandlerBoundToURL('/index.html'), { denylist: [/^\/api\//] }));
+
+const queue = new Queue('recipe-requests', {
+  maxRetentionTime: QUEUE_RETENTION_MINUTES,
+  onSync: () => replayQueue(),
+});
+
+registerRoute(
+  ({ url, request }) => QUEUEABLE_PATHS.includes(url.pathname) && request.headers.has(QUEUE_ID_HEADER),
+  async ({ request }) => {
+    // The body can only be read once, so keep a copy in case the network is down
+    const backup = request.clone();
+    try {
+      return await fetch(request);
+    } catch {
+      const id = request.headers.get(QUEUE_ID_HEADER)!;
+      await queue.pushRequest({ request: backup, metadata: { id } });
+      return new Response(JSON.stringify({ queued: true, id }), {
+        status: 202,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+  'POST',
+);
+
+async function postToClients(message: OfflineMessage): Promise<readonly WindowClient[]> {
+  const windows = await self.clients.matchAll({ type: 'window' });
+  windows.forEach(client => client.postMessage(message));
+  return windows;
+}
+
+/**
+ * The replayed request must come back as one JSON body rather than a stream, and its ID token
+ * may have expired by now, so the app passes a fresh Authorization header when it can.
+ */
+function prepareReplay(request: Request, authorization?: string | null): Request {
+  const headers = new Headers(request.headers);
+  headers.set('Accept', 'application/json');
+  if (authorization) headers.set('Authorization', authorization);
+  else if (authorization === null) headers.delete('Authorization');
+  return new Request(request, { headers });
+}
+
+/**
+ * Stores the outcome of one replayed request and tells the user about it. The app stores a context
+ * for every request it queues and deletes it when the user dismisses the request, so a reply
+ * without one is dropped: nobody is waiting for it any more.
+ */
+async function settle(id: string, response: Response): Promise<void> {
+  const context = await getQueuedRecipe(id);
+  if (!context) return;
+  const { language } = context;
+  const data = await response.json().catch(() => null);
+
+  if (response.ok && data && !data.error) {
+    await rememberRecipe({
+      id,
+      recipe: data,
+      sourceIngredients: context.sourceIngredients,
+      cuisineType: context.cuisineType,
+      language,
+      thumbnail: context.thumbnail ?? null,
+      createdAt: Date.now(),
+      queued: true,
+    });
+    await deleteQueuedRecipe(id);
+    const windows = await postToClients({ type: 'queued-recipe-ready', id });
+    await notify(id, NOTIFICATION_TEXT[language].ready, data.recipeName, windows);
+  } else {
+    const error = data?.error || response.statusText || `HTTP ${response.status}`;
+    await saveQueuedRecipe({ ...context, status: 'failed', error });
+    const windows = await postToClients({ type: 'queued-recipe-failed', id, error });
+    await notify(id, NOTIFICATION_TEXT[language].failed, error, windows);
+  }
+}
+
+/** A system notification only when no window of the app is in front; the app shows its own otherwise. */
+async function notify(id: string, title: string, body: string, windows: readonly WindowClient[]): Promise<void> {
+  if (Notification.permission !== 'granted') return;
+  if (windows.some(client => client.visibilityState === 'visible')) return;
+  await self.registration.showNotification(title, { body, icon: '/icon2.png', tag: id, data: { id } });
+}
+
+/**
+ * Sends every queued request. A network failure puts the request back and rethrows, so the
+ * browser retries the sync later. A 401 while replaying with the stored token means it expired;
+ * the request then waits until the app is opened and passes a fresh one (`authorization`).
+ */
+async function replayQueue(authorization?: string | null): Promise<void> {
+  let entry;
+  while ((entry = await queue.shiftRequest())) {
+    const id = entry.metadata?.id as string;
+    let response: Response;
+    try {
+      response = await fetch(prepareReplay(entry.request, authorization));
+    } catch (err) {
+      await queue.unshiftRequest(entry);
+      throw err;
+    }
+    if (response.status === 401 && authorization === undefined && entry.request.headers.has('Authorization')) {
+      await queue.unshiftRequest(entry);
+      return;
+    }
+    await settle(id, response);
+  }
+}
+
+/**
+ * Removes a request the user dismissed. Workbox has no way to delete one entry, so the queue is
+ * emptied and every other entry pushed back in its original order.
+ */
+async function discardQueued(id: string): Promise<void> {
+  const kept = [];
+  let entry;
+  while ((entry = await queue.shiftRequest())) {
+    if (entry.metadata?.id !== id) kept.push(entry);
+  }
+  for (const other of kept) await queue.pushRequest(other);
+}
+
+self.addEventListener('message', (event) => {
+  const message = event.data as OfflineMessage;
+  if (message?.type === 'replay-queue') {
+    event.waitUntil(replayQueue(message.authorization).catch(err => console.warn('Queued recipes not sent yet:', err)));
+  } else if (message?.type === 'discard-queued') {
+    event.waitUntil(discardQueued(message.id).catch(err => console.warn('Could not discard queued recipe:', err)));
+  }
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const id = event.notification.data?.id as string | undefined;
+  event.waitUntil(
+    (async () => {
+      const [client] = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+      if (client) {
+        await client.focus();
+        if (id) client.postMessage({ type: 'open-recipe', id } satisfies OfflineMessage);
+      } else {
+        await self.clients.openWindow(id ? `/?recipe=${encodeURIComponent(id)}` : '/');
+      }
+    })(),
+  );
+});
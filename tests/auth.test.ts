@@ -0,0 +1,83 @@
+// tests/auth.test.ts
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { createMemoryCacheStore, setRecipeCache } from "../lib/recipe-engine/cache";
+import { generateRecipeEndpoint } from "../lib/recipe-engine/endpoints";
+import { runEndpoint } from "../lib/recipe-engine/http";
+import { apiRequest, resetEngine } from "./helpers";
+
+const BODY = { ingredients: ["rice", "chicken"], language: "en" };
+
+describe("authentication", () => {
+  let engine: ReturnType<typeof resetEngine>;
+  beforeEach(() => {
+    engine = resetEngine();
+  });
+
+  it("rejects an invalid token with a JSON 401 before the model is called", async () => {
+    const res = await runEndpoint("generate-recipe", generateRecipeEndpoint, apiRequest({
+      body: BODY,
+      headers: { authorization: "Bearer not-a-stub-token" },
+    }));
+    assert.equal(res.status, 401);
+    assert.deepEqual(res.body, { error: "Your session has expired. Please sign in again.", code: "invalid_token" });
+    assert.equal(res.headers?.["Access-Control-Allow-Origin"], "*");
+    assert.equal(engine.provider.calls.length, 0);
+    assert.equal(engine.quota.keys.length, 0);
+  });
+
+  it("rejects a missing token only when AUTH_REQUIRED is set", async () => {
+    const anonymous = await runEndpoint("generate-recipe", generateRecipeEndpoint, apiRequest({ body: BODY }));
+    assert.equal(anonymous.status, 200);
+
+    process.env.AUTH_REQUIRED = "true";
+    const required = await runEndpoint("generate-recipe", generateRecipeEndpoint, apiRequest({ body: BODY }));
+    assert.equal(required.status, 401);
+    assert.equal((required.body as { code: string }).code, "unauthenticated");
+  });
+
+  it("counts a signed-in caller's quota against their uid", async () => {
+    const res = await runEndpoint("generate-recipe", generateRecipeEndpoint, apiRequest({
+      body: BODY,
+      headers: { authorization: "Bearer stub:alice" },
+    }));
+    assert.equal(res.status, 200);
+    assert.equal(res.headers?.["X-RateLimit-Scope"], "user-day");
+    assert.equal(res.headers?.["X-RateLimit-Remaining"], "49");
+    assert.match(engine.quota.keys[0], /^uid:alice:/);
+  });
+
+  it("counts an anonymous caller's quota against their IP", async () => {
+    const res = await runEndpoint("generate-recipe", generateRecipeEndpoint, apiRequest({ body: BODY, ip: "198.51.100.2" }));
+    assert.equal(res.headers?.["X-RateLimit-Scope"], "ip-hour");
+    assert.match(engine.quota.keys[0], /^ip:198\.51\.100\.2:/);
+  });
+
+  it("serves a cache hit to another user without touching their quota", async () => {
+    setRecipeCache(createMemoryCacheStore());
+    const first = await runEndpoint("generate-recipe", generateRecipeEndpoint, apiRequest({
+      body: BODY,
+      headers: { authorization: "Bearer stub:alice" },
+    }));
+    const second = await runEndpoint("generate-recipe", generateRecipeEndpoint, apiRequest({
+      body: BODY,
+      headers: { authorization: "Bearer stub:bob" },
+    }));
+    assert.equal(first.headers?.["X-Cache"], "MISS");
+    assert.equal(second.headers?.["X-Cache"], "HIT");
+    assert.deepEqual(engine.quota.keys.map((key) => key.split(":").slice(0, 2).join(":")), ["uid:alice"]);
+    assert.equal(engine.provider.calls.length, 1);
+  });
+
+  it("reports the caller's current quota on a cache hit", async () => {
+    setRecipeCache(createMemoryCacheStore());
+    const bob = { authorization: "Bearer stub:bob" };
+    await runEndpoint("generate-recipe", generateRecipeEndpoint, apiRequest({ body: { ...BODY, ingredients: ["lentils"] }, headers: bob }));
+    await runEndpoint("generate-recipe", generateRecipeEndpoint, apiRequest({ body: BODY, headers: { authorization: "Bearer stub:alice" } }));
+    const hit = await runEndpoint("generate-recipe", generateRecipeEndpoint, apiRequest({ body: BODY, headers: bob }));
+    assert.equal(hit.headers?.["X-Cache"], "HIT");
+    assert.equal(hit.headers?.["X-RateLimit-Remaining"], "49");
+    assert.equal(hit.headers?.["X-RateLimit-Scope"], "user-day");
+    assert.equal(engine.quota.keys.length, 2);
+  });
+});
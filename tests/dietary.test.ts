@@ -0,0 +1,68 @@
+// tests/dietary.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkDietaryProfile, ingredientGroups } from "../lib/recipe-engine/dietary";
+
+describe("ingredientGroups", () => {
+  const cases: [string, string[]][] = [
+    ["heavy cream", ["dairy"]],
+    ["cream of tartar", []],
+    ["butter beans", []],
+    ["unsalted butter", ["dairy"]],
+    ["eggplant", []],
+    ["free-range eggs", ["eggs"]],
+    ["gluten-free pasta", []],
+    ["dairy free cheese", []],
+    ["toasted pine nuts", ["nuts"]],
+    ["grated nutmeg", []],
+    ["red wine vinegar", []],
+    ["red wine", ["alcohol"]],
+    ["كريمة الطرطير", []],
+    ["كريمة طبخ", ["dairy"]],
+    ["خل النبيذ", []],
+    ["نبيذ مخلوط بالماء", ["alcohol"]],
+    ["جبنة نباتية", []],
+    ["حليب جوز الهند", []],
+    ["بالحليب", ["dairy"]],
+    ["fat-free milk", ["dairy"]],
+    ["sugar-free peanut butter", ["peanuts", "sugar"]],
+    ["gluten-free soy sauce", ["soy", "salt"]],
+    ["salt-free butter", ["dairy", "salt"]],
+    ["dairy-free chocolate with hazelnuts", ["nuts"]],
+    ["coconut and almond flakes", ["nuts"]],
+    ["vegan butter", []],
+    ["vegan chocolate with hazelnuts", ["nuts"]],
+    ["peanut butter", ["peanuts"]],
+    ["peanut butter and whole milk", ["dairy", "peanuts"]],
+    ["خبز خالي من الغلوتين", []],
+    ["جبنة خالية من اللاكتوز مع جوز", ["nuts"]],
+  ];
+
+  for (const [name, expected] of cases) {
+    it(`${name} -> [${expected.join(", ")}]`, () => {
+      assert.deepEqual(ingredientGroups(name), expected);
+    });
+  }
+});
+
+describe("checkDietaryProfile", () => {
+  it("warns about dairy in a dairy-free recipe but not about cream of tartar", () => {
+    const warnings = checkDietaryProfile(
+      { ingredients: [{ name: "cream of tartar" }, { name: "whole milk" }] },
+      { restrictions: ["dairy-free"], allergens: [] },
+    );
+    assert.deepEqual(warnings, [{ ingredient: "whole milk", rule: "dairy-free", group: "dairy" }]);
+  });
+
+  it("keeps allergen warnings on names with an unrelated free-from marker", () => {
+    const warnings = checkDietaryProfile(
+      { ingredients: [{ name: "fat-free milk" }, { name: "sugar-free peanut butter" }, { name: "dairy-free chocolate with hazelnuts" }] },
+      { restrictions: ["vegan"], allergens: ["peanuts", "nuts"] },
+    );
+    assert.deepEqual(warnings, [
+      { ingredient: "fat-free milk", rule: "vegan", group: "dairy" },
+      { ingredient: "sugar-free peanut butter", rule: "peanuts", group: "peanuts" },
+      { ingredient: "dairy-free chocolate with hazelnuts", rule: "nuts", group: "nuts" },
+    ]);
+  });
+});
@@ -0,0 +1,35 @@
+// tests/endpoints.test.ts
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import sharp from "sharp";
+import { analyzeImageEndpoint, detectIngredientsEndpoint } from "../lib/recipe-engine/endpoints";
+import { runEndpoint, type ParsedForm } from "../lib/recipe-engine/http";
+import { apiRequest, resetEngine } from "./helpers";
+
+function upload(buffer: Buffer, fields: Record<string, string> = {}): ParsedForm {
+  return { images: [{ buffer, mimeType: "image/jpeg" }], fields: { language: "en", ...fields } };
+}
+
+describe("image endpoints and quota", () => {
+  let engine: ReturnType<typeof resetEngine>;
+  beforeEach(() => {
+    engine = resetEngine();
+  });
+
+  for (const [name, endpoint] of [["analyze-image", analyzeImageEndpoint], ["detect-ingredients", detectIngredientsEndpoint]] as const) {
+    it(`${name}: an unreadable upload is refused without using quota`, async () => {
+      const res = await runEndpoint(name, endpoint, apiRequest({ form: upload(Buffer.from("not really a photo")) }));
+      assert.equal(res.status, 415);
+      assert.equal((res.body as { code: string }).code, "unsupported_image");
+      assert.equal(engine.quota.keys.length, 0);
+      assert.equal(engine.provider.calls.length, 0);
+    });
+
+    it(`${name}: a valid photo uses one request`, async () => {
+      const photo = await sharp({ create: { width: 32, height: 32, channels: 3, background: "#c0392b" } }).jpeg().toBuffer();
+      const res = await runEndpoint(name, endpoint, apiRequest({ form: upload(photo) }));
+      assert.equal(res.status, 200);
+      assert.equal(engine.quota.keys.length, 1);
+    });
+  }
+});
@@ -0,0 +1,89 @@
+// tests/helpers.ts
+// Shared setup for endpoint tests: an in-memory ApiRequest, and engine state reset between tests.
+import { setVerifier, createStubVerifier } from "../lib/recipe-engine/auth";
+import { setRecipeCache } from "../lib/recipe-engine/cache";
+import { createFixtureProvider, setProvider, type LlmProvider, type LlmRequest } from "../lib/recipe-engine/providers";
+import { createMemoryStore, setRateLimitStore, type RateLimitStore } from "../lib/recipe-engine/rate-limit";
+import type { ApiRequest, ParsedForm } from "../lib/recipe-engine/http";
+
+export function apiRequest({
+  body,
+  form,
+  headers = {},
+  ip = "203.0.113.7",
+}: { body?: unknown; form?: ParsedForm; headers?: Record<string, string>; ip?: string } = {}): ApiRequest {
+  return {
+    method: "POST",
+    headers,
+    ip,
+    supportsStreaming: false,
+    json: async () => body ?? {},
+    multipart: async () => form ?? { images: [], fields: {} },
+  };
+}
+
+/** A memory rate-limit store that also records every key it counted. */
+export function recordingRateLimitStore(): RateLimitStore & { keys: string[] } {
+  const inner = createMemoryStore();
+  const keys: string[] = [];
+  return {
+    keys,
+    hit(key, resetAt, now) {
+      keys.push(key);
+      return inner.hit(key, resetAt, now);
+    },
+    count: (key, now) => inner.count(key, now),
+  };
+}
+
+/** Wraps a provider so tests can see which tasks reached the model. */
+export function recordingProvider(inner: LlmProvider = createFixtureProvider()): LlmProvider & { calls: LlmRequest[] } {
+  const calls: LlmRequest[] = [];
+  return {
+    name: `recording-${inner.name}`,
+    calls,
+    generateJson(request) {
+      calls.push(request);
+      return inner.generateJson(request);
+    },
+  };
+}
+
+/** Fixture provider, stub verifier, fresh memory quota store and no recipe cache. */
+export function resetEngine(): { provider: ReturnType<typeof recordingProvider>; quota: ReturnType<typeof recordingRateLimitStore> } {
+  const provider = recordingProvider();
+  const quota = recordingRateLimitStore();
+  setProvider(provider);
+  setVerifier(createStubVerifier());
+  setRateLimitStore(quota);
+  setRecipeCache(null);
+  delete process.env.AUTH_REQUIRED;
+  return { provider, quota };
+}
+
+/** Answers with `replies` in order, repeating the last one, in place of a model. */
+export function scriptedProvider(...replies: unknown[]): LlmProvider {
+  let next = 0;
+  return {
+    name: "scripted",
+    async generateJson() {
+      return JSON.stringify(replies[Math.min(next++, replies.length - 1)]);
+    },
+  };
+}
+
+/** A complete recipe for scripted replies; override the fields a test is about. */
+export function recipeReply(fields: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    recipeName: "Chicken Maqluba",
+    origin: "Palestine",
+    cuisineType: "Middle Eastern",
+    prepTime: "30 minutes",
+    cookTime: "60 minutes",
+    difficulty: "Medium",
+    servings: 4,
+    ingredients: [{ name: "rice", quantity: 2, unit: "cups" }, { name: "chicken", quantity: 1, unit: "kg" }],
+    instructions: ["Cook the chicken.", "Add the rice and simmer."],
+    ...fields,
+  };
+}
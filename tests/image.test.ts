@@ -0,0 +1,101 @@
+// tests/image.test.ts
+// Fixtures in tests/fixtures: rotated.jpg is 40x20 stored pixels with EXIF orientation 6 and a
+// camera make. rotated.heic is a 64x32 HEVC frame (red left half, blue right half, encoded with
+// x265) whose irot property turns it 90° anticlockwise. header-only.heic is just an ftyp box.
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { describe, it } from "node:test";
+import sharp from "sharp";
+import { prepareImageForModel, sniffImageFormat } from "../lib/recipe-engine/image";
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+
+/** Rewrites the ftyp major brand, as some encoders write the generic "mif1" with "avif" only among the compatible brands. */
+function withMajorBrand(buffer: Buffer, brand: string): Buffer {
+  const copy = Buffer.from(buffer);
+  copy.write(brand, 8, "latin1");
+  return copy;
+}
+
+async function prepared(buffer: Buffer) {
+  const { data, mimeType } = await prepareImageForModel(buffer);
+  assert.equal(mimeType, "image/jpeg");
+  const out = Buffer.from(data, "base64");
+  return { out, metadata: await sharp(out).metadata() };
+}
+
+describe("sniffImageFormat", () => {
+  const cases: [string, string | undefined][] = [
+    ["rotated.jpg", "jpeg"],
+    ["large.png", "png"],
+    ["small.webp", "webp"],
+    ["rotated.heic", "heic"],
+    ["header-only.heic", "heic"],
+    ["not-an-image.jpg", undefined],
+  ];
+
+  for (const [name, format] of cases) {
+    it(`${name} -> ${format}`, () => {
+      assert.equal(sniffImageFormat(fixture(name)), format);
+    });
+  }
+
+  it("tells AVIF from HEIC by the ftyp brands", async () => {
+    const avif = await sharp({ create: { width: 8, height: 8, channels: 3, background: "#000" } }).avif().toBuffer();
+    assert.equal(sniffImageFormat(avif), "avif");
+    assert.equal(sniffImageFormat(withMajorBrand(avif, "mif1")), "avif");
+  });
+
+  it("needs more than a few bytes", () => {
+    assert.equal(sniffImageFormat(Buffer.from([0xff, 0xd8, 0xff])), undefined);
+  });
+});
+
+describe("prepareImageForModel", () => {
+  const rejection = (code: string) => (err: any) => err.status === 415 && err.code === code;
+
+  it("refuses a text file named .jpg as unsupported", async () => {
+    await assert.rejects(prepareImageForModel(fixture("not-an-image.jpg")), rejection("unsupported_image"));
+  });
+
+  it("refuses files that sniff as images but do not decode as unreadable", async () => {
+    await assert.rejects(prepareImageForModel(fixture("header-only.heic")), rejection("unreadable_image"));
+    await assert.rejects(prepareImageForModel(fixture("rotated.jpg").subarray(0, 40)), rejection("unreadable_image"));
+  });
+
+  it("applies the EXIF rotation and strips the metadata", async () => {
+    const { out, metadata } = await prepared(fixture("rotated.jpg"));
+    assert.equal(metadata.format, "jpeg");
+    assert.deepEqual([metadata.width, metadata.height], [20, 40]);
+    assert.equal(metadata.orientation, undefined);
+    assert.equal(metadata.exif, undefined);
+    assert.equal(out.includes("TestCam"), false);
+  });
+
+  it("decodes HEIC and applies its rotation", async () => {
+    const { out, metadata } = await prepared(fixture("rotated.heic"));
+    assert.deepEqual([metadata.width, metadata.height], [32, 64]);
+    const { data } = await sharp(out).raw().toBuffer({ resolveWithObject: true });
+    const pixel = (x: number, y: number) => [...data.subarray((y * 32 + x) * 3, (y * 32 + x) * 3 + 3)];
+    // The red left half ends up at the bottom
+    assert.ok(pixel(16, 60)[0] > 180 && pixel(16, 60)[2] < 100, `bottom is ${pixel(16, 60)}`);
+    assert.ok(pixel(16, 4)[2] > 180 && pixel(16, 4)[0] < 100, `top is ${pixel(16, 4)}`);
+  });
+
+  it("decodes an AVIF whose major brand is the generic mif1", async () => {
+    const avif = await sharp({ create: { width: 16, height: 8, channels: 3, background: "#27ae60" } }).avif().toBuffer();
+    const { metadata } = await prepared(withMajorBrand(avif, "mif1"));
+    assert.deepEqual([metadata.format, metadata.width, metadata.height], ["jpeg", 16, 8]);
+  });
+
+  it("shrinks large images to 768 on the long side and flattens transparency", async () => {
+    const { metadata } = await prepared(fixture("large.png"));
+    assert.deepEqual([metadata.width, metadata.height], [768, 384]);
+    assert.equal(metadata.hasAlpha, false);
+  });
+
+  it("does not enlarge small images", async () => {
+    const { metadata } = await prepared(fixture("small.webp"));
+    assert.deepEqual([metadata.format, metadata.width, metadata.height], ["jpeg", 24, 24]);
+  });
+});
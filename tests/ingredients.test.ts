@@ -0,0 +1,61 @@
+// tests/ingredients.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ingredientKey, mergeIngredientNames, parseIngredient } from "../lib/recipe-engine/ingredients";
+
+describe("parseIngredient", () => {
+  const cases: [string, { name: string; quantity?: number; unit?: string; preparation?: string; optional?: boolean }][] = [
+    ["2 cups rice, washed", { name: "rice", quantity: 2, unit: "cups", preparation: "washed" }],
+    ["1 1/2 tbsp olive oil", { name: "olive oil", quantity: 1.5, unit: "tbsp" }],
+    ["½ tsp salt", { name: "salt", quantity: 0.5, unit: "tsp" }],
+    ["half a cup of water", { name: "water", quantity: 0.5, unit: "cup" }],
+    ["half an ounce saffron", { name: "saffron", quantity: 0.5, unit: "ounce" }],
+    ["a quarter cup sugar", { name: "sugar", quantity: 0.25, unit: "cup" }],
+    ["a cup of milk", { name: "milk", quantity: 1, unit: "cup" }],
+    ["3 eggs", { name: "eggs", quantity: 3 }],
+    ["نصف كوب سكر (اختياري)", { name: "سكر", quantity: 0.5, unit: "كوب", optional: true }],
+    ["٢ كوب أرز", { name: "أرز", quantity: 2, unit: "كوب" }],
+    ["ملعقتان كبيرتان زيت", { name: "زيت", quantity: 2, unit: "ملعقتان كبيرتان" }],
+    ["ملعقتين صغيرتين ملح", { name: "ملح", quantity: 2, unit: "ملعقتين صغيرتين" }],
+    ["كوبان ماء", { name: "ماء", quantity: 2, unit: "كوبان" }],
+    ["فصين ثوم، مهروس", { name: "ثوم", quantity: 2, unit: "فصين", preparation: "مهروس" }],
+    ["salt", { name: "salt" }],
+  ];
+
+  for (const [input, expected] of cases) {
+    it(JSON.stringify(input), () => {
+      assert.deepEqual(parseIngredient(input), expected);
+    });
+  }
+});
+
+describe("ingredientKey", () => {
+  const cases: [string, string][] = [
+    ["Tomatoes", "tomato"],
+    ["tomato", "tomato"],
+    ["onions", "onion"],
+    ["dates", "date"],
+    ["sauces", "sauce"],
+    ["glass", "glass"],
+    ["glasses", "glass"],
+    ["hummus", "hummus"],
+    ["couscous", "couscous"],
+    ["peas", "pea"],
+    ["الطماطم", "طماطم"],
+    ["  Green   Peppers ", "green pepper"],
+  ];
+
+  for (const [input, expected] of cases) {
+    it(`${input} -> ${expected}`, () => {
+      assert.equal(ingredientKey(input), expected);
+    });
+  }
+
+  it("merges spellings of the same ingredient and keeps the first", () => {
+    assert.deepEqual(mergeIngredientNames(["Tomatoes", "hummus"], ["tomato", "Hummus", "glass", "glasses"]), [
+      "Tomatoes",
+      "hummus",
+      "glass",
+    ]);
+  });
+});
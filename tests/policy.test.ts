@@ -0,0 +1,120 @@
+// tests/policy.test.ts
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { generateRecipeEndpoint } from "../lib/recipe-engine/endpoints";
+import { runEndpoint } from "../lib/recipe-engine/http";
+import { classifyCuisine, filterCandidates, resolveRequestedCuisine } from "../lib/recipe-engine/policy";
+import { setProvider } from "../lib/recipe-engine/providers";
+import type { CuisineRefusal } from "../lib/recipe-engine/types";
+import { apiRequest, recipeReply, recordingProvider, resetEngine, scriptedProvider } from "./helpers";
+
+describe("classifyCuisine", () => {
+  const cases: [string, { recipeName: string; origin: string; cuisineType?: string }, string][] = [
+    ["turkey as an ingredient", { recipeName: "Turkey Club Sandwich", origin: "USA", cuisineType: "Western fast food" }, "allowed"],
+    ["turkey burger", { recipeName: "Roast Turkey Burger", origin: "United States" }, "allowed"],
+    ["ديك رومي", { recipeName: "ساندويتش ديك رومي", origin: "أمريكا" }, "allowed"],
+    ["Turkey as the origin", { recipeName: "Iskender Kebab", origin: "Turkey" }, "denied"],
+    ["Turkish in the name", { recipeName: "Turkish Pide", origin: "USA" }, "denied"],
+    ["تركيا as the origin", { recipeName: "كباب", origin: "تركيا" }, "denied"],
+    ["a denied dish", { recipeName: "Chicken Sushi Rolls", origin: "USA" }, "denied"],
+    ["Korean cuisineType", { recipeName: "Fried Chicken", origin: "Seoul", cuisineType: "Korean" }, "denied"],
+    ["unknown origin", { recipeName: "Fish Stew", origin: "Atlantis" }, "unknown"],
+    ["Peru is on neither list", { recipeName: "Ceviche", origin: "Peru", cuisineType: "Peruvian" }, "unknown"],
+    ["Butter Chicken", { recipeName: "Butter Chicken", origin: "India", cuisineType: "Indian" }, "denied"],
+    ["Nasi Goreng", { recipeName: "Nasi Goreng", origin: "Indonesia" }, "denied"],
+    ["Chicken Adobo", { recipeName: "Chicken Adobo", origin: "Philippines" }, "denied"],
+    ["Chicken Tacos", { recipeName: "Chicken Tacos", origin: "Mexico" }, "unknown"],
+    ["Lebanese cuisineType", { recipeName: "Fattoush", origin: "Beirut", cuisineType: "Lebanese" }, "allowed"],
+  ];
+
+  for (const [label, recipe, status] of cases) {
+    it(`${label} -> ${status}`, () => {
+      assert.equal(classifyCuisine(recipe).status, status);
+    });
+  }
+});
+
+describe("resolveRequestedCuisine", () => {
+  const refusalOf = (value: unknown, language: "ar" | "en"): CuisineRefusal => {
+    try {
+      resolveRequestedCuisine(value, language);
+    } catch (err: any) {
+      assert.equal(err.status, 422);
+      return err.details.refusal;
+    }
+    assert.fail("expected a refusal");
+  };
+
+  it("refuses a denied cuisine by name, in the request's language", () => {
+    assert.equal(refusalOf("Turkey", "en").reason, "forbidden");
+    const arabic = refusalOf("korean", "ar");
+    assert.equal(arabic.cuisine, "الكوري");
+    assert.match(arabic.message, /الكوري/);
+  });
+
+  it("refuses free text outside the taxonomy as unsupported", () => {
+    assert.equal(refusalOf("Martian", "en").reason, "unsupported");
+  });
+});
+
+describe("filterCandidates", () => {
+  const candidate = (recipeName: string, origin: string) => ({ recipeName, origin, difficulty: "Easy", totalTime: "30 minutes", description: "" });
+
+  it("keeps only suggestions from allowed origins", () => {
+    const kept = filterCandidates([candidate("Kabsa", "Saudi Arabia"), candidate("Tacos", "Mexico"), candidate("Ramen", "Japan")], "en");
+    assert.deepEqual(kept.map((c) => c.recipeName), ["Kabsa"]);
+  });
+
+  it("refuses when nothing allowed is left, naming a denied cuisine if there was one", () => {
+    assert.throws(
+      () => filterCandidates([candidate("Tacos", "Mexico"), candidate("Ramen", "Japan")], "en"),
+      (err: any) => err.details.refusal.reason === "off_policy_result" && err.details.refusal.cuisine === "Japanese",
+    );
+  });
+});
+
+describe("generate-recipe policy", () => {
+  beforeEach(() => {
+    resetEngine();
+  });
+
+  it("accepts a turkey recipe from the USA with a single model call", async () => {
+    const provider = recordingProvider(scriptedProvider(recipeReply({ recipeName: "Turkey Club Sandwich", origin: "USA", cuisineType: "Western fast food" })));
+    setProvider(provider);
+    const res = await runEndpoint("generate-recipe", generateRecipeEndpoint, apiRequest({ body: { ingredients: ["turkey", "bread"], language: "en" } }));
+    assert.equal(res.status, 200);
+    assert.equal(provider.calls.length, 1);
+  });
+
+  it("re-prompts once for an origin on neither list, then refuses", async () => {
+    const provider = recordingProvider(scriptedProvider(recipeReply({ recipeName: "Chicken Tacos", origin: "Mexico", cuisineType: "Mexican" })));
+    setProvider(provider);
+    const res = await runEndpoint("generate-recipe", generateRecipeEndpoint, apiRequest({ body: { ingredients: ["chicken"], language: "en" } }));
+    assert.equal(res.status, 422);
+    const { refusal } = (res.body as { details: { refusal: CuisineRefusal } }).details;
+    assert.equal(refusal.reason, "off_policy_result");
+    assert.equal(refusal.cuisine, undefined);
+    assert.equal(provider.calls.length, 2);
+    assert.match(provider.calls[1].prompt, /outside the allowed cuisines/);
+  });
+
+  it("serves the re-prompted recipe when it is allowed", async () => {
+    const provider = recordingProvider(
+      scriptedProvider(recipeReply({ recipeName: "Nasi Goreng", origin: "Indonesia", cuisineType: "Indonesian" }), recipeReply()),
+    );
+    setProvider(provider);
+    const res = await runEndpoint("generate-recipe", generateRecipeEndpoint, apiRequest({ body: { ingredients: ["rice"], language: "en" } }));
+    assert.equal(res.status, 200);
+    assert.equal((res.body as { recipeName: string }).recipeName, "Chicken Maqluba");
+    assert.equal(provider.calls.length, 2);
+  });
+
+  it("re-prompts once for an off-policy recipe, then refuses", async () => {
+    const provider = recordingProvider(scriptedProvider(recipeReply({ recipeName: "Bibimbap", origin: "Korea", cuisineType: "Korean" })));
+    setProvider(provider);
+    const res = await runEndpoint("generate-recipe", generateRecipeEndpoint, apiRequest({ body: { ingredients: ["rice"], language: "en" } }));
+    assert.equal(res.status, 422);
+    assert.equal((res.body as { details: { refusal: CuisineRefusal } }).details.refusal.reason, "off_policy_result");
+    assert.equal(provider.calls.length, 2);
+  });
+});
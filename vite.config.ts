@@ -13,6 +13,10 @@ export default defineConfig(() => {
     plugins.push(
       VitePWA({
         registerType: "autoUpdate",
+        // Custom worker for the offline recipe queue; see src/sw.ts
+        strategies: "injectManifest",
+        srcDir: "src",
+        filename: "sw.ts",
 
         includeAssets: ["icon2.png"],
         manifest: {
@@ -42,9 +46,8 @@ export default defineConfig(() => {
             },
           ],
         },
-        workbox: {
+        injectManifest: {
           globPatterns: ["**/*.{js,css,html,ico,png,svg,woff2}"],
-          navigateFallback: "/index.html",
         },
       }),
     );